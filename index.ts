@@ -1,6 +1,13 @@
 import WebServer from '@blockless/sdk-ts/dist/lib/web';
 import { searchEngines } from './src/search-engines';
 import { wasmLLM } from './src/wasm-llm';
+import { LOCALE_OPTIONS, isValidLocaleCode, resolveLocale } from './src/locale';
+import { isSafeSearchLevel, isTimeRange } from './src/search-filters';
+import { isDomainRuleList, MAX_DOMAIN_RULES } from './src/domain-rules';
+import { SearchUnavailableError } from './src/engine-errors';
+import { outboundLinks, LINK_SECRET_ENV } from './src/outbound-links';
+import { ReaderArticle, ReaderError, canReadUrl, fetchArticle } from './src/reader-view';
+import { queryParams } from './src/url-canonical';
 
 const server = new WebServer();
 
@@ -11,7 +18,7 @@ server.statics('public', '/');
 server.get('/health', async (req, res) => {
   try {
     const healthStatus = await searchEngines.healthCheck();
-    res.send(JSON.stringify(healthStatus));
+    res.send(JSON.stringify({ ...healthStatus, outboundLinks: { sharedSecret: outboundLinks.sharedSecret } }));
   } catch (error) {
     res.send(JSON.stringify({ 
       error: 'Health check failed',
@@ -88,7 +95,7 @@ server.post('/search', async (req, res) => {
       body = req.body || {};
     }
 
-    const { query, useAnonymization = true } = body;
+    const { query, useAnonymization = true, mode, page, offset, cursor, language, region, safeSearch, timeRange, engine, domainRules } = body;
     
     if (!query || typeof query !== 'string') {
       const errorResponse = { 
@@ -99,9 +106,59 @@ server.post('/search', async (req, res) => {
       return;
     }
 
+    if ((language !== undefined && !isValidLocaleCode(language)) || (region !== undefined && !isValidLocaleCode(region))) {
+      const errorResponse = {
+        error: 'Invalid locale parameter',
+        message: 'language and region must be two-letter codes (e.g. "de" and "at")'
+      };
+      res.send(JSON.stringify(errorResponse));
+      return;
+    }
+
+    if ((safeSearch !== undefined && !isSafeSearchLevel(safeSearch)) || (timeRange !== undefined && !isTimeRange(timeRange))) {
+      const errorResponse = {
+        error: 'Invalid filter parameter',
+        message: 'safeSearch must be strict, moderate or off; timeRange must be any, day, week, month or year'
+      };
+      res.send(JSON.stringify(errorResponse));
+      return;
+    }
+
+    // `engine` selects providers for this request: a name or a list of names
+    const engines = typeof engine === 'string' ? [engine] : engine;
+    if (engines !== undefined && (!Array.isArray(engines) || !engines.every(name => typeof name === 'string'))) {
+      const errorResponse = {
+        error: 'Invalid engine parameter',
+        message: 'engine must be a provider name or a list of provider names (e.g. "fixture")'
+      };
+      res.send(JSON.stringify(errorResponse));
+      return;
+    }
+
+    // Domain rules come from the browser's local settings on every request and are never stored here
+    if (domainRules !== undefined && !isDomainRuleList(domainRules)) {
+      const errorResponse = {
+        error: 'Invalid domainRules parameter',
+        message: `domainRules must be a list of at most ${MAX_DOMAIN_RULES} { pattern, action } rules; action is block, lower, raise or pin and pattern a host such as "example.com" or "*.example.com"`
+      };
+      res.send(JSON.stringify(errorResponse));
+      return;
+    }
+
     // Perform search with WASM LLM integration
     try {
-      const searchResult = await searchEngines.search(query, useAnonymization);
+      const searchResult = await searchEngines.search(query, useAnonymization, {
+        mode: mode === 'parallel' || mode === 'fallback' ? mode : undefined,
+        page: typeof page === 'number' ? page : undefined,
+        offset: typeof offset === 'number' ? offset : undefined,
+        cursor: typeof cursor === 'string' ? cursor : undefined,
+        language,
+        region,
+        safeSearch,
+        timeRange,
+        engines,
+        domainRules
+      });
       
       // Extra validation to ensure we have a valid JSON object
       if (!searchResult || typeof searchResult !== 'object') {
@@ -119,8 +176,18 @@ server.post('/search', async (req, res) => {
         results: searchResult.results.map(result => ({
           title: String(result.title || ''),
           url: String(result.url || ''),
+          displayUrl: String(result.displayUrl || result.url || ''),
           snippet: String(result.snippet || ''),
-          source: String(result.source || '')
+          rank: Number(result.rank) || 0,
+          engines: Array.isArray(result.engines) ? result.engines.map(String) : [],
+          type: result.type || 'organic',
+          publishedDate: result.publishedDate ? String(result.publishedDate) : undefined,
+          thumbnail: result.thumbnail ? String(result.thumbnail) : undefined,
+          sanitized: result.sanitized,
+          // Signed /go link the UI opens instead of the raw URL
+          goUrl: /^https?:\/\//i.test(String(result.url || '')) ? outboundLinks.sign(String(result.url)) : undefined,
+          // Reader view only works for sites the deployment may fetch
+          readable: canReadUrl(String(result.url || ''))
         })),
         debug_info: {
           engine: searchResult.engine,
@@ -132,6 +199,15 @@ server.post('/search', async (req, res) => {
       
       res.send(JSON.stringify(safeResponse));
     } catch (searchError) {
+      if (searchError instanceof SearchUnavailableError) {
+        res.send(JSON.stringify({
+          error: 'Search unavailable',
+          message: searchError.message,
+          errorInfo: searchError.errorInfo
+        }));
+        return;
+      }
+
       const errorResponse = { 
         error: 'Search engine error',
         message: searchError instanceof Error ? searchError.message : 'Search processing failed'
@@ -148,6 +224,141 @@ server.post('/search', async (req, res) => {
   }
 });
 
+// Autocomplete endpoint: POST like /search so typed prefixes stay out of URLs and access logs
+server.post('/suggest', async (req, res) => {
+  try {
+    let body;
+    if (typeof req.body === 'string') {
+      try {
+        body = JSON.parse(req.body);
+      } catch (parseError) {
+        const errorResponse = {
+          error: 'Invalid JSON format',
+          message: 'Request body must be valid JSON'
+        };
+        res.send(JSON.stringify(errorResponse));
+        return;
+      }
+    } else {
+      body = req.body || {};
+    }
+
+    const { query, language, region } = body;
+
+    if (typeof query !== 'string' || query.length > 200) {
+      const errorResponse = {
+        error: 'Invalid query parameter',
+        message: 'Query must be a string of at most 200 characters'
+      };
+      res.send(JSON.stringify(errorResponse));
+      return;
+    }
+
+    if ((language !== undefined && !isValidLocaleCode(language)) || (region !== undefined && !isValidLocaleCode(region))) {
+      const errorResponse = {
+        error: 'Invalid locale parameter',
+        message: 'language and region must be two-letter codes (e.g. "de" and "at")'
+      };
+      res.send(JSON.stringify(errorResponse));
+      return;
+    }
+
+    if (query.trim().length < 2) {
+      res.send(JSON.stringify({ suggestions: [] }));
+      return;
+    }
+
+    const response = await searchEngines.suggest(query, { language, region });
+    res.send(JSON.stringify(response));
+  } catch (error) {
+    const errorResponse = {
+      error: 'Suggest failed',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+    res.send(JSON.stringify(errorResponse));
+  }
+});
+
+// Outbound link endpoint: only follows links signed by /search, and never passes the referrer on
+server.get('/go', (req, res) => {
+  const query = requestQuery(req);
+  const check = outboundLinks.verify(query.url, query.exp, query.sig);
+
+  setHeader(res, 'Referrer-Policy', 'no-referrer');
+  setHeader(res, 'Cache-Control', 'no-store');
+
+  if (!check.valid) {
+    res.send(outboundPage('Link unavailable', `
+        <h1>${check.reason === 'expired' ? 'This link has expired' : 'This link is not valid'}</h1>
+        <p>Result links work for a limited time and only from Mirror Search results. Run the search again to get a fresh link.</p>
+        <p><a href="/">Back to Mirror Search</a></p>`));
+    return;
+  }
+
+  const target = escapeAttribute(check.url);
+
+  if (check.insecure && outboundLinks.httpInterstitial) {
+    res.send(outboundPage('Unencrypted site', `
+        <h1>This site does not use HTTPS</h1>
+        <p>Anything you send to it, and which of its pages you read, can be seen by others on the network.</p>
+        <p class="target">${target}</p>
+        <p><a class="continue" href="${target}" rel="noreferrer noopener">Continue to the site</a> <a href="/">Back to Mirror Search</a></p>`));
+    return;
+  }
+
+  res.send(outboundPage('Redirecting', `
+        <p>Redirecting to <a href="${target}" rel="noreferrer noopener">${target}</a></p>`, target));
+});
+
+// Reader view: fetches a signed result link server-side and returns only the article.
+// Takes the same url/exp/sig as /go, so it cannot be used to fetch arbitrary pages.
+server.get('/read', async (req, res) => {
+  const query = requestQuery(req);
+  const asJson = query.format === 'json';
+  const check = outboundLinks.verify(query.url, query.exp, query.sig);
+
+  setHeader(res, 'Referrer-Policy', 'no-referrer');
+  setHeader(res, 'Cache-Control', 'no-store');
+
+  const fail = (message: string) => {
+    if (asJson) {
+      res.send(JSON.stringify({ error: 'Reader unavailable', message }));
+    } else {
+      res.send(outboundPage('Reader view unavailable', `
+        <h1>Reader view unavailable</h1>
+        <p>${escapeAttribute(message)}</p>`));
+    }
+  };
+
+  if (!check.valid) {
+    fail(check.reason === 'expired'
+      ? 'This link has expired. Run the search again to get a fresh one.'
+      : 'Reader view only opens links from Mirror Search results.');
+    return;
+  }
+
+  try {
+    const locale = resolveLocale(
+      isValidLocaleCode(query.language) ? query.language : undefined,
+      isValidLocaleCode(query.region) ? query.region : undefined
+    );
+    const article = await fetchArticle(check.url, locale);
+
+    if (asJson) {
+      res.send(JSON.stringify(article));
+      return;
+    }
+
+    // Nothing on the page may load anything: no scripts, frames, images or fonts
+    setHeader(res, 'Content-Security-Policy', READER_CSP);
+    res.send(readerPage(article, `/go?url=${encodeURIComponent(check.url)}&exp=${query.exp}&sig=${query.sig}`));
+  } catch (error) {
+    fail(error instanceof ReaderError
+      ? error.message
+      : `The page could not be loaded: ${error instanceof Error ? error.message : String(error)}`);
+  }
+});
+
 // TinyLlama Status Page
 server.get('/tinyllama-status', (req, res) => {
   const html = `<!DOCTYPE html>
@@ -263,6 +474,10 @@ server.get('/tinyllama-status', (req, res) => {
 
 // Serve static files
 server.get('/', (req, res) => {
+  const localeOptions = LOCALE_OPTIONS.map(option =>
+    `<option value="${option.language}-${option.region}">${option.label}</option>`
+  ).join('');
+
   // Read and serve index.html with inline CSS and JS
   const html = `<!DOCTYPE html>
 <html lang="en">
@@ -475,6 +690,42 @@ server.get('/', (req, res) => {
             background: rgba(255, 255, 255, 0.95);
         }
 
+        /* Autocomplete */
+        .suggestion-list {
+            position: absolute;
+            top: calc(100% + 0.25rem);
+            left: 0;
+            right: 0;
+            z-index: 20;
+            margin: 0;
+            padding: 0.25rem 0;
+            list-style: none;
+            background: rgba(255, 255, 255, 0.97);
+            border: 1px solid var(--border-glass);
+            border-radius: var(--radius);
+            box-shadow: var(--shadow-lg);
+            text-align: left;
+        }
+
+        .suggestion-item {
+            display: flex;
+            justify-content: space-between;
+            gap: 1rem;
+            padding: 0.5rem 1.5rem;
+            color: var(--text-primary);
+            cursor: pointer;
+        }
+
+        .suggestion-item.active,
+        .suggestion-item:hover {
+            background: rgba(79, 70, 229, 0.1);
+        }
+
+        .suggestion-source {
+            color: var(--text-secondary);
+            font-size: 0.75rem;
+        }
+
         .search-button {
             position: absolute;
             right: 0.5rem;
@@ -559,6 +810,52 @@ server.get('/', (req, res) => {
             display: none;
         }
 
+        .locale-select {
+            padding: 0.4rem 0.75rem;
+            background: rgba(255, 255, 255, 0.2);
+            color: rgba(255, 255, 255, 0.9);
+            border: 1px solid var(--border-glass);
+            border-radius: 8px;
+            font-size: 0.9rem;
+            font-family: inherit;
+            cursor: pointer;
+        }
+
+        .locale-select option {
+            color: #1f2937;
+        }
+
+        /* Domain Rules */
+        .domain-rules {
+            margin-top: 0.75rem;
+            color: rgba(255, 255, 255, 0.9);
+            font-size: 0.9rem;
+        }
+
+        .domain-rules summary {
+            cursor: pointer;
+        }
+
+        .domain-rules textarea {
+            display: block;
+            width: 100%;
+            margin-top: 0.5rem;
+            padding: 0.5rem 0.75rem;
+            background: rgba(255, 255, 255, 0.9);
+            color: var(--text-primary);
+            border: 1px solid var(--border-glass);
+            border-radius: 8px;
+            font-family: monospace;
+            font-size: 0.85rem;
+            resize: vertical;
+        }
+
+        .domain-rules-hint {
+            margin-top: 0.35rem;
+            font-size: 0.8rem;
+            color: rgba(255, 255, 255, 0.75);
+        }
+
         /* Status Bar */
         .status-bar {
             display: flex;
@@ -784,6 +1081,201 @@ server.get('/', (req, res) => {
             font-weight: 500;
         }
 
+        .result-thumbnail {
+            float: right;
+            width: 72px;
+            height: 72px;
+            object-fit: cover;
+            border-radius: 8px;
+            margin: 0 0 0.5rem 1rem;
+        }
+
+        .result-type {
+            display: inline-block;
+            margin-bottom: 0.5rem;
+            padding: 0.15rem 0.5rem;
+            border-radius: 6px;
+            background: rgba(79, 70, 229, 0.1);
+            color: var(--primary-color);
+            font-size: 0.75rem;
+            font-weight: 600;
+            text-transform: uppercase;
+        }
+
+        .result-cleaned {
+            display: inline-block;
+            margin: 0 0 0.5rem 0.25rem;
+            padding: 0.15rem 0.5rem;
+            border-radius: 6px;
+            background: rgba(16, 185, 129, 0.12);
+            color: #047857;
+            font-size: 0.75rem;
+            font-weight: 600;
+            cursor: help;
+        }
+
+        .result-meta {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 0.5rem;
+            margin-top: 0.5rem;
+            font-size: 0.75rem;
+            color: var(--text-secondary);
+        }
+
+        .result-engine {
+            padding: 0.1rem 0.4rem;
+            border-radius: 4px;
+            color: white;
+        }
+
+        /* Answer Cards (instant answer, featured snippet, knowledge panel) */
+        .answer-card {
+            background: var(--surface);
+            backdrop-filter: blur(20px);
+            border: 1px solid var(--border-glass);
+            border-left: 4px solid var(--primary-color);
+            border-radius: var(--radius-lg);
+            padding: 1.5rem 2rem;
+            margin-bottom: 1.5rem;
+            animation: slideIn 0.4s ease-out;
+        }
+
+        .featured-snippet {
+            border-left-color: var(--success-color);
+        }
+
+        .card-label {
+            display: inline-block;
+            margin-bottom: 0.5rem;
+            font-size: 0.75rem;
+            font-weight: 600;
+            text-transform: uppercase;
+            color: var(--text-secondary);
+        }
+
+        .card-image {
+            float: right;
+            max-width: 120px;
+            max-height: 120px;
+            object-fit: contain;
+            border-radius: 8px;
+            margin: 0 0 0.5rem 1rem;
+        }
+
+        .answer-card h3 {
+            margin: 0 0 0.75rem 0;
+            font-size: 1.25rem;
+            font-weight: 600;
+        }
+
+        .card-subtitle {
+            margin: -0.5rem 0 0.75rem 0;
+            font-size: 0.875rem;
+            color: var(--text-secondary);
+        }
+
+        .card-answer {
+            font-size: 1.5rem;
+            font-weight: 600;
+            margin-bottom: 0.75rem;
+        }
+
+        .card-text {
+            color: var(--text-secondary);
+            line-height: 1.7;
+            font-size: 0.95rem;
+            margin-bottom: 0.75rem;
+        }
+
+        .card-source {
+            font-size: 0.8rem;
+        }
+
+        .card-source a,
+        .card-links a {
+            color: var(--primary-color);
+            text-decoration: none;
+        }
+
+        .card-facts {
+            clear: both;
+            display: grid;
+            grid-template-columns: max-content 1fr;
+            gap: 0.25rem 1rem;
+            margin: 1rem 0;
+            font-size: 0.875rem;
+        }
+
+        .card-facts dt {
+            font-weight: 600;
+        }
+
+        .card-facts dd {
+            margin: 0;
+            color: var(--text-secondary);
+        }
+
+        .card-links {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 0.5rem;
+            margin-top: 0.75rem;
+            font-size: 0.8rem;
+        }
+
+        /* Query Refinements (did you mean, People also ask, related searches) */
+        .refinement-link {
+            background: none;
+            border: none;
+            padding: 0;
+            font: inherit;
+            color: var(--primary-color);
+            cursor: pointer;
+            text-align: left;
+        }
+
+        .refinement-link:hover {
+            text-decoration: underline;
+        }
+
+        .spelling-suggestion {
+            margin-bottom: 1rem;
+            font-size: 1rem;
+            color: rgba(255, 255, 255, 0.9);
+        }
+
+        .spelling-suggestion .refinement-link {
+            color: white;
+            font-weight: 600;
+            font-style: italic;
+        }
+
+        .people-also-ask details {
+            border-top: 1px solid var(--border-glass);
+            padding: 0.75rem 0;
+        }
+
+        .people-also-ask summary {
+            cursor: pointer;
+            font-weight: 500;
+        }
+
+        .people-also-ask .card-text {
+            margin: 0.5rem 0;
+        }
+
+        .related-searches {
+            margin-bottom: 1.5rem;
+        }
+
+        .related-searches .refinement-link {
+            padding: 0.4rem 0.9rem;
+            border-radius: 1.5rem;
+            background: var(--surface);
+            border: 1px solid var(--border-glass);
+        }
+
         /* Empty State */
         .empty-state {
             text-align: center;
@@ -873,6 +1365,86 @@ server.get('/', (req, res) => {
             transform: translateY(-2px);
         }
 
+        .load-more-button {
+            display: block;
+            width: 100%;
+            padding: 1rem 2rem;
+            background: var(--surface-glass);
+            backdrop-filter: blur(20px);
+            color: white;
+            border: 1px solid var(--border-glass);
+            border-radius: var(--radius);
+            font-weight: 600;
+            cursor: pointer;
+            transition: var(--transition);
+        }
+
+        .load-more-button:hover {
+            background: rgba(255, 255, 255, 0.2);
+        }
+
+        .load-more-button:disabled {
+            opacity: 0.6;
+            cursor: wait;
+        }
+
+        /* Reader View */
+        .reader-button {
+            background: none;
+            border: none;
+            padding: 0;
+            font: inherit;
+            color: var(--primary-color);
+            cursor: pointer;
+        }
+
+        .reader-button:hover {
+            text-decoration: underline;
+        }
+
+        .reader-pane {
+            position: fixed;
+            top: 0;
+            right: 0;
+            bottom: 0;
+            z-index: 50;
+            display: flex;
+            flex-direction: column;
+            width: min(680px, 100%);
+            background: var(--surface);
+            box-shadow: var(--shadow-lg);
+        }
+
+        .reader-pane-header {
+            display: flex;
+            align-items: center;
+            justify-content: space-between;
+            gap: 1rem;
+            padding: 0.75rem 1rem;
+            border-bottom: 1px solid var(--border-glass);
+            font-size: 0.9rem;
+            color: var(--text-secondary);
+        }
+
+        .reader-pane-header a {
+            color: var(--primary-color);
+        }
+
+        .reader-close {
+            background: none;
+            border: none;
+            font-size: 1.25rem;
+            cursor: pointer;
+            color: var(--text-secondary);
+        }
+
+        .reader-frame {
+            flex: 1;
+            width: 100%;
+            border: none;
+            background: #fdfcf8;
+        }
+
         /* Responsive Design */
         @media (max-width: 1024px) {
             .container {
@@ -983,7 +1555,12 @@ server.get('/', (req, res) => {
                             id="searchInput" 
                             placeholder="Search anything privately..."
                             autocomplete="off"
+                            role="combobox"
+                            aria-autocomplete="list"
+                            aria-expanded="false"
+                            aria-controls="suggestionList"
                         >
+                        <ul id="suggestionList" class="suggestion-list hidden" role="listbox" aria-label="Search suggestions"></ul>
                         <button id="searchButton" class="search-button">
                             🔍
                         </button>
@@ -996,7 +1573,17 @@ server.get('/', (req, res) => {
                             <span class="toggle-slider"></span>
                         </label>
                         <span class="toggle-label">AI Query Anonymization</span>
+                        <select id="localeSelect" class="locale-select" aria-label="Search language and region">
+                            ${localeOptions}
+                        </select>
                     </div>
+
+                    <!-- Domain Rules: kept in this browser and sent with each search -->
+                    <details class="domain-rules">
+                        <summary>Domain rules</summary>
+                        <textarea id="domainRulesInput" rows="5" spellcheck="false" aria-label="Domain rules, one per line" placeholder="block pinterest.com&#10;pin docs.python.org&#10;raise *.wikipedia.org&#10;lower medium.com"></textarea>
+                        <div class="domain-rules-hint">One rule per line: block, lower, raise or pin, then a domain. "example.com" also covers its subdomains; use * as a wildcard. Stored only in this browser.</div>
+                    </details>
                 </div>
             </div>
         </div>
@@ -1021,9 +1608,25 @@ server.get('/', (req, res) => {
                     <span id="debugMethod" class="debug-method hidden"></span>
                 </div>
             </div>
+            <aside id="knowledgePanel" class="answer-card knowledge-panel hidden" aria-label="Knowledge panel"></aside>
+            <aside id="instantAnswer" class="answer-card instant-answer hidden" aria-label="Instant answer"></aside>
+            <div id="spellingSuggestion" class="spelling-suggestion hidden"></div>
+            <section id="featuredSnippet" class="answer-card featured-snippet hidden" aria-label="Featured snippet"></section>
+            <section id="peopleAlsoAsk" class="answer-card people-also-ask hidden" aria-label="People also ask"></section>
             <div id="resultsList" class="results-list"></div>
+            <section id="relatedSearches" class="answer-card related-searches hidden" aria-label="Related searches"></section>
+            <button id="loadMoreButton" class="load-more-button hidden">More results</button>
         </div>
 
+        <!-- Reader View: sandboxed, no scripts; the page itself is served with a no-load CSP -->
+        <aside id="readerPane" class="reader-pane hidden" aria-label="Reader view">
+            <div class="reader-pane-header">
+                <span>Reader view · <a id="readerOriginal" href="#" target="_blank" rel="noopener noreferrer">Open original</a></span>
+                <button id="readerClose" class="reader-close" aria-label="Close reader view">✕</button>
+            </div>
+            <iframe id="readerFrame" class="reader-frame" title="Reader view" sandbox="allow-popups allow-popups-to-escape-sandbox" referrerpolicy="no-referrer"></iframe>
+        </aside>
+
         <!-- Error State -->
         <div id="errorState" class="error-state hidden">
             <div class="error-icon">⚠️</div>
@@ -1042,16 +1645,39 @@ server.get('/', (req, res) => {
                 this.loadingState = document.getElementById('loadingState');
                 this.resultsContainer = document.getElementById('resultsContainer');
                 this.resultsList = document.getElementById('resultsList');
+                this.instantAnswer = document.getElementById('instantAnswer');
+                this.featuredSnippet = document.getElementById('featuredSnippet');
+                this.knowledgePanel = document.getElementById('knowledgePanel');
+                this.spellingSuggestion = document.getElementById('spellingSuggestion');
+                this.peopleAlsoAsk = document.getElementById('peopleAlsoAsk');
+                this.relatedSearches = document.getElementById('relatedSearches');
                 this.errorState = document.getElementById('errorState');
                 this.retryButton = document.getElementById('retryButton');
+                this.loadMoreButton = document.getElementById('loadMoreButton');
+                this.localeSelect = document.getElementById('localeSelect');
+                this.suggestionList = document.getElementById('suggestionList');
+                this.domainRulesInput = document.getElementById('domainRulesInput');
+                this.readerPane = document.getElementById('readerPane');
+                this.readerFrame = document.getElementById('readerFrame');
+                this.readerOriginal = document.getElementById('readerOriginal');
+                this.readerClose = document.getElementById('readerClose');
                 
                 this.currentQuery = '';
+                this.suggestions = [];
+                this.activeSuggestion = -1;
+                this.suggestTimer = null;
+                this.suggestRequest = 0;
+                this.currentLocale = null;
                 this.isSearching = false;
+                this.nextCursor = null;
+                this.resultCount = 0;
                 
                 this.init();
             }
 
             init() {
+                this.restoreLocale();
+                this.restoreDomainRules();
                 this.bindEvents();
                 this.updateStatusBar();
             }
@@ -1067,23 +1693,231 @@ server.get('/', (req, res) => {
                     }
                 });
 
+                this.searchInput.addEventListener('input', () => {
+                    this.scheduleSuggestions();
+                });
+
+                this.searchInput.addEventListener('keydown', (e) => {
+                    this.handleSuggestionKey(e);
+                });
+
+                this.searchInput.addEventListener('blur', () => {
+                    this.hideSuggestions();
+                });
+
+                // mousedown rather than click so the input does not blur first
+                this.suggestionList.addEventListener('mousedown', (e) => {
+                    const item = e.target.closest('[data-suggestion]');
+                    if (item) {
+                        e.preventDefault();
+                        this.searchFor(item.dataset.suggestion);
+                    }
+                });
+
                 this.retryButton.addEventListener('click', () => {
                     this.performSearch();
                 });
 
+                this.loadMoreButton.addEventListener('click', () => {
+                    this.loadMoreResults();
+                });
+
+                // Suggestions, questions and related searches all start a fresh search
+                this.resultsContainer.addEventListener('click', (e) => {
+                    const reader = e.target.closest('[data-reader]');
+                    if (reader) {
+                        e.preventDefault();
+                        this.openReader(reader.dataset.reader);
+                        return;
+                    }
+
+                    const link = e.target.closest('[data-query]');
+                    if (link) {
+                        e.preventDefault();
+                        this.searchFor(link.dataset.query);
+                    }
+                });
+
+                this.domainRulesInput.addEventListener('change', () => {
+                    try {
+                        localStorage.setItem('mirrorSearchDomainRules', this.domainRulesInput.value);
+                    } catch (error) {
+                        // Storage unavailable - the rules still apply to searches from this page
+                    }
+                });
+
+                this.localeSelect.addEventListener('change', () => {
+                    try {
+                        localStorage.setItem('mirrorSearchLocale', this.localeSelect.value);
+                    } catch (error) {
+                        // Storage unavailable (private mode) - keep the choice for this page only
+                    }
+                });
+
                 document.addEventListener('keydown', (e) => {
                     if (e.key === '/' && document.activeElement !== this.searchInput) {
                         e.preventDefault();
                         this.searchInput.focus();
                     }
                     if (e.key === 'Escape') {
+                        if (!this.readerPane.classList.contains('hidden')) {
+                            this.closeReader();
+                            return;
+                        }
                         this.hideAllStates();
                         document.body.classList.remove('search-active');
                     }
                 });
+
+                this.readerClose.addEventListener('click', () => {
+                    this.closeReader();
+                });
+            }
+
+            restoreLocale() {
+                try {
+                    const saved = localStorage.getItem('mirrorSearchLocale');
+                    if (saved && this.localeSelect.querySelector('option[value="' + saved + '"]')) {
+                        this.localeSelect.value = saved;
+                    }
+                } catch (error) {
+                    // Storage unavailable - keep the default locale
+                }
+            }
+
+            restoreDomainRules() {
+                try {
+                    this.domainRulesInput.value = localStorage.getItem('mirrorSearchDomainRules') || '';
+                } catch (error) {
+                    // Storage unavailable - start without rules
+                }
+            }
+
+            // "pin docs.python.org" -> { action: "pin", pattern: "docs.python.org" }.
+            // Lines that are not a valid rule (including # comments) are ignored.
+            getDomainRules() {
+                return this.domainRulesInput.value.split('\\n')
+                    .map(line => line.trim().toLowerCase().split(/\\s+/))
+                    .filter(parts => parts.length === 2 && parts[1].length <= 253 && /^(block|lower|raise|pin)$/.test(parts[0]) && /^[a-z0-9*.-]*[a-z0-9-][a-z0-9*.-]*$/.test(parts[1]))
+                    .slice(0, 500)
+                    .map(parts => ({ action: parts[0], pattern: parts[1] }));
+            }
+
+            // "de-at" -> { language: "de", region: "at" }
+            getLocale() {
+                const parts = this.localeSelect.value.split('-');
+                return { language: parts[0], region: parts[1] };
+            }
+
+            // Debounced so a fast typist sends one request per pause, not per key
+            scheduleSuggestions() {
+                clearTimeout(this.suggestTimer);
+                const query = this.searchInput.value;
+
+                if (query.trim().length < 2) {
+                    this.hideSuggestions();
+                    return;
+                }
+
+                this.suggestTimer = setTimeout(() => this.fetchSuggestions(query), 150);
+            }
+
+            async fetchSuggestions(query) {
+                const request = ++this.suggestRequest;
+                const locale = this.getLocale();
+
+                try {
+                    const response = await fetch('/suggest', {
+                        method: 'POST',
+                        headers: {
+                            'Content-Type': 'application/json',
+                        },
+                        body: JSON.stringify({ query: query, language: locale.language, region: locale.region })
+                    });
+                    const data = await response.json();
+
+                    // Drop answers to prefixes the user has already typed past
+                    if (request !== this.suggestRequest || this.searchInput.value !== query) {
+                        return;
+                    }
+
+                    this.renderSuggestions(data.suggestions || []);
+                } catch (error) {
+                    // Autocomplete is best effort; searching still works without it
+                    this.hideSuggestions();
+                }
+            }
+
+            renderSuggestions(suggestions) {
+                this.suggestions = suggestions;
+                this.activeSuggestion = -1;
+
+                if (suggestions.length === 0 || document.activeElement !== this.searchInput) {
+                    this.hideSuggestions();
+                    return;
+                }
+
+                this.suggestionList.innerHTML = suggestions.map((suggestion, index) =>
+                    '<li id="suggestion-' + index + '" class="suggestion-item" role="option" aria-selected="false" data-suggestion="' + this.escapeHtml(suggestion.text) + '">' +
+                        '<span>' + this.escapeHtml(suggestion.text) + '</span>' +
+                        (suggestion.source !== 'local' ? '<span class="suggestion-source">' + this.escapeHtml(suggestion.source) + '</span>' : '') +
+                    '</li>'
+                ).join('');
+                this.suggestionList.classList.remove('hidden');
+                this.searchInput.setAttribute('aria-expanded', 'true');
+                this.searchInput.removeAttribute('aria-activedescendant');
+            }
+
+            hideSuggestions() {
+                clearTimeout(this.suggestTimer);
+                this.suggestRequest++;
+                this.suggestions = [];
+                this.activeSuggestion = -1;
+                this.suggestionList.classList.add('hidden');
+                this.suggestionList.innerHTML = '';
+                this.searchInput.setAttribute('aria-expanded', 'false');
+                this.searchInput.removeAttribute('aria-activedescendant');
+            }
+
+            // Arrow keys move through the list, Enter searches the highlighted entry,
+            // Escape closes the list without clearing the results
+            handleSuggestionKey(e) {
+                if (this.suggestions.length === 0) {
+                    return;
+                }
+
+                if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                    e.preventDefault();
+                    const step = e.key === 'ArrowDown' ? 1 : -1;
+                    const count = this.suggestions.length;
+                    this.highlightSuggestion((this.activeSuggestion + 1 + step + count + 1) % (count + 1) - 1);
+                } else if (e.key === 'Enter' && this.activeSuggestion >= 0) {
+                    e.preventDefault();
+                    this.searchFor(this.suggestions[this.activeSuggestion].text);
+                } else if (e.key === 'Escape') {
+                    e.stopPropagation();
+                    this.hideSuggestions();
+                }
+            }
+
+            // -1 returns focus to what the user typed
+            highlightSuggestion(index) {
+                this.activeSuggestion = index;
+                const items = this.suggestionList.querySelectorAll('.suggestion-item');
+                items.forEach((item, i) => {
+                    item.classList.toggle('active', i === index);
+                    item.setAttribute('aria-selected', i === index ? 'true' : 'false');
+                });
+
+                if (index >= 0) {
+                    this.searchInput.setAttribute('aria-activedescendant', 'suggestion-' + index);
+                } else {
+                    this.searchInput.removeAttribute('aria-activedescendant');
+                }
             }
 
             async performSearch() {
+                this.hideSuggestions();
                 const query = this.searchInput.value.trim();
                 
                 if (!query) {
@@ -1107,9 +1941,14 @@ server.get('/', (req, res) => {
                 try {
                     const cleanQuery = query.replace(/[\\u{1F600}-\\u{1F64F}]|[\\u{1F300}-\\u{1F5FF}]|[\\u{1F680}-\\u{1F6FF}]|[\\u{1F1E0}-\\u{1F1FF}]|[\\u{2600}-\\u{26FF}]|[\\u{2700}-\\u{27BF}]/gu, '').trim();
                     
+                    const locale = this.getLocale();
+                    this.currentLocale = locale;
                     const requestBody = {
                         query: cleanQuery,
-                        useAnonymization: this.anonymizationToggle.checked
+                        useAnonymization: this.anonymizationToggle.checked,
+                        language: locale.language,
+                        region: locale.region,
+                        domainRules: this.getDomainRules()
                     };
 
                     const response = await fetch('/search', {
@@ -1140,6 +1979,78 @@ server.get('/', (req, res) => {
                 }
             }
 
+            // Runs as a brand-new search: the suggestion text goes through anonymization
+            // like anything typed by hand, since it may echo the original query
+            searchFor(query) {
+                if (!query || this.isSearching) {
+                    return;
+                }
+
+                this.searchInput.value = query;
+                this.performSearch();
+            }
+
+            async loadMoreResults() {
+                if (this.isSearching || !this.nextCursor) {
+                    return;
+                }
+
+                this.isSearching = true;
+                this.loadMoreButton.disabled = true;
+                this.loadMoreButton.textContent = 'Loading...';
+
+                try {
+                    const response = await fetch('/search', {
+                        method: 'POST',
+                        headers: {
+                            'Content-Type': 'application/json',
+                        },
+                        body: JSON.stringify({
+                            query: this.currentQuery,
+                            useAnonymization: this.anonymizationToggle.checked,
+                            language: this.currentLocale.language,
+                            region: this.currentLocale.region,
+                            cursor: this.nextCursor,
+                            domainRules: this.getDomainRules()
+                        })
+                    });
+
+                    if (!response.ok) {
+                        throw new Error('HTTP ' + response.status + ': ' + response.statusText);
+                    }
+
+                    const data = await response.json();
+
+                    if (data.error) {
+                        throw new Error(data.message || data.error);
+                    }
+
+                    this.appendResults(data);
+                } catch (error) {
+                    this.showError(error.message || 'Could not load more results.');
+                } finally {
+                    this.isSearching = false;
+                    this.loadMoreButton.disabled = false;
+                    this.loadMoreButton.textContent = 'More results';
+                }
+            }
+
+            appendResults(data) {
+                (data.results || []).forEach((result, index) => {
+                    const resultElement = this.createResultElement(result, index);
+                    this.resultsList.appendChild(resultElement);
+                });
+
+                this.resultCount += (data.results || []).length;
+                document.getElementById('resultsCount').textContent = this.resultCount + ' results';
+                this.updatePagination(data.pagination);
+            }
+
+            updatePagination(pagination) {
+                this.nextCursor = pagination && pagination.hasMore ? pagination.nextCursor : null;
+                this.loadMoreButton.classList.toggle('hidden', !this.nextCursor);
+            }
+
             showLoadingState() {
                 this.hideAllStates();
                 this.loadingState.classList.remove('hidden');
@@ -1175,14 +2086,17 @@ server.get('/', (req, res) => {
             displayResults(data) {
                 this.hideAllStates();
                 
-                if (!data.results || data.results.length === 0) {
-                    this.showError('No results found. Try a different search term.');
+                if ((!data.results || data.results.length === 0) && !data.instantAnswer && !data.featuredSnippet && !data.knowledgePanel) {
+                    this.showError(data.domainRules && data.domainRules.blocked > 0
+                        ? 'All results were hidden by your domain rules.'
+                        : 'No results found. Try a different search term.');
                     return;
                 }
 
-                document.getElementById('resultsCount').textContent = data.totalResults + ' results';
-                document.getElementById('searchTime').textContent = data.totalTime + 'ms';
-                document.getElementById('searchEngine').textContent = data.engine;
+                document.getElementById('resultsCount').textContent = data.totalResults + ' results' +
+                    (data.domainRules && data.domainRules.blocked > 0 ? ' (' + data.domainRules.blocked + ' blocked)' : '');
+                document.getElementById('searchTime').textContent = data.totalTime + 'ms' + (data.cached ? ' (cached)' : '');
+                document.getElementById('searchEngine').textContent = Array.isArray(data.engine) ? data.engine.join(', ') : data.engine;
                 
                 const debugMethodElement = document.getElementById('debugMethod');
                 
@@ -1196,6 +2110,10 @@ server.get('/', (req, res) => {
                     debugMethodElement.classList.remove('hidden'); // Görünür yap
                 }
                 
+                this.renderKnowledgePanel(data.knowledgePanel);
+                this.renderInstantAnswer(data.instantAnswer);
+                this.renderFeaturedSnippet(data.featuredSnippet);
+                this.renderRefinements(data);
                 this.resultsList.innerHTML = '';
                 
                 data.results.forEach((result, index) => {
@@ -1203,6 +2121,8 @@ server.get('/', (req, res) => {
                     this.resultsList.appendChild(resultElement);
                 });
 
+                this.resultCount = data.results.length;
+                this.updatePagination(data.pagination);
                 this.resultsContainer.classList.remove('hidden');
                 this.updateStatusBar(data.status);
             }
@@ -1212,33 +2132,158 @@ server.get('/', (req, res) => {
                 div.className = 'result-item';
                 div.style.animationDelay = (index * 100) + 'ms';
                 
-                const sourceColor = this.getSourceColor(result.source);
+                const engines = (result.engines || []).map(engine =>
+                    '<span class="result-engine" style="background:' + this.getEngineColor(engine) + '">' + this.escapeHtml(engine) + '</span>'
+                ).join('');
+                const published = result.publishedDate ? new Date(result.publishedDate) : null;
                 
-                div.innerHTML = '<div class="result-header">' +
+                div.innerHTML = (result.thumbnail ? '<img class="result-thumbnail" src="' + this.escapeHtml(result.thumbnail) + '" alt="" loading="lazy" referrerpolicy="no-referrer">' : '') +
+                '<div class="result-header">' +
+                    (result.type && result.type !== 'organic' ? '<span class="result-type">' + this.escapeHtml(result.type) + '</span>' : '') +
+                    (result.sanitized ? '<span class="result-cleaned" title="' + this.escapeHtml(this.describeSanitization(result.sanitized)) + '">cleaned</span>' : '') +
                     '<h3 class="result-title">' +
-                        '<a href="' + result.url + '" target="_blank" rel="noopener noreferrer">' +
+                        // Through /go when the server signed one, so the site sees no referrer
+                        '<a href="' + this.escapeHtml(result.goUrl || result.url) + '" target="_blank" rel="noopener noreferrer">' +
                             this.escapeHtml(result.title) +
                         '</a>' +
                     '</h3>' +
                 '</div>' +
                 '<p class="result-snippet">' + this.escapeHtml(result.snippet) + '</p>' +
-                '<div class="result-url">' + this.escapeHtml(result.url) + '</div>';
+                '<div class="result-url">' + this.escapeHtml(result.displayUrl || result.url) + '</div>' +
+                '<div class="result-meta">' +
+                    (result.rank ? '<span>#' + result.rank + '</span>' : '') +
+                    engines +
+                    (published && !isNaN(published.getTime()) ? '<span>' + published.toLocaleDateString() + '</span>' : '') +
+                    (result.goUrl && result.readable ? '<button type="button" class="reader-button" data-reader="' + this.escapeHtml(result.goUrl) + '">Reader view</button>' : '') +
+                '</div>';
                 
                 return div;
             }
 
-            getSourceColor(source) {
+            renderInstantAnswer(answer) {
+                if (!answer) {
+                    this.hideCard(this.instantAnswer);
+                    return;
+                }
+
+                const topics = (answer.relatedTopics || []).slice(0, 5).map(topic =>
+                    this.cardLink(topic.url, topic.text.split(' - ')[0])
+                ).join('');
+                const definition = answer.definition;
+
+                this.instantAnswer.innerHTML = this.cardImage(answer.image) +
+                    (answer.heading ? '<h3>' + this.escapeHtml(answer.heading) + '</h3>' : '') +
+                    (answer.answer ? '<div class="card-answer">' + this.escapeHtml(answer.answer) + '</div>' : '') +
+                    (answer.abstract ? '<p class="card-text">' + this.escapeHtml(answer.abstract) + '</p>' : '') +
+                    (answer.source ? '<div class="card-source">' + this.cardLink(answer.source.url, answer.source.name) + '</div>' : '') +
+                    (definition ? '<p class="card-text">' + this.escapeHtml(definition.text) +
+                        (definition.source ? ' <span class="card-source">(' + (definition.url ? this.cardLink(definition.url, definition.source) : this.escapeHtml(definition.source)) + ')</span>' : '') +
+                    '</p>' : '') +
+                    this.cardFacts(answer.infobox) +
+                    (topics ? '<div class="card-links">' + topics + '</div>' : '');
+                this.instantAnswer.classList.remove('hidden');
+            }
+
+            renderFeaturedSnippet(snippet) {
+                if (!snippet) {
+                    this.hideCard(this.featuredSnippet);
+                    return;
+                }
+
+                this.featuredSnippet.innerHTML = this.cardImage(snippet.image) +
+                    '<span class="card-label">Featured snippet</span>' +
+                    '<p class="card-text">' + this.escapeHtml(snippet.snippet) + '</p>' +
+                    '<h3 class="result-title">' + this.cardLink(snippet.source.url, snippet.title) + '</h3>' +
+                    '<div class="result-url">' + this.escapeHtml(snippet.source.name) + '</div>';
+                this.featuredSnippet.classList.remove('hidden');
+            }
+
+            renderKnowledgePanel(panel) {
+                if (!panel) {
+                    this.hideCard(this.knowledgePanel);
+                    return;
+                }
+
+                this.knowledgePanel.innerHTML = this.cardImage(panel.image) +
+                    '<h3>' + this.escapeHtml(panel.title) + '</h3>' +
+                    (panel.subtitle ? '<p class="card-subtitle">' + this.escapeHtml(panel.subtitle) + '</p>' : '') +
+                    (panel.description ? '<p class="card-text">' + this.escapeHtml(panel.description) + '</p>' : '') +
+                    (panel.source ? '<div class="card-source">' + this.cardLink(panel.source.url, panel.source.name) + '</div>' : '') +
+                    this.cardFacts(panel.facts) +
+                    (panel.website ? '<div class="card-links">' + this.cardLink(panel.website, 'Website') + '</div>' : '');
+                this.knowledgePanel.classList.remove('hidden');
+            }
+
+            renderRefinements(data) {
+                if (data.spellingSuggestion) {
+                    this.spellingSuggestion.innerHTML = 'Did you mean: ' + this.refinementLink(data.spellingSuggestion) + '?';
+                    this.spellingSuggestion.classList.remove('hidden');
+                } else {
+                    this.hideCard(this.spellingSuggestion);
+                }
+
+                const questions = (data.peopleAlsoAsk || []).map(entry =>
+                    '<details><summary>' + this.escapeHtml(entry.question) + '</summary>' +
+                        (entry.answer ? '<p class="card-text">' + this.escapeHtml(entry.answer) + '</p>' : '') +
+                        '<div class="card-links">' +
+                            this.refinementLink(entry.question, 'Search this question') +
+                            (entry.source ? this.cardLink(entry.source.url, entry.source.name) : '') +
+                        '</div>' +
+                    '</details>'
+                ).join('');
+                if (questions) {
+                    this.peopleAlsoAsk.innerHTML = '<span class="card-label">People also ask</span>' + questions;
+                    this.peopleAlsoAsk.classList.remove('hidden');
+                } else {
+                    this.hideCard(this.peopleAlsoAsk);
+                }
+
+                const related = (data.relatedSearches || []).map(query => this.refinementLink(query)).join('');
+                if (related) {
+                    this.relatedSearches.innerHTML = '<span class="card-label">Related searches</span><div class="card-links">' + related + '</div>';
+                    this.relatedSearches.classList.remove('hidden');
+                } else {
+                    this.hideCard(this.relatedSearches);
+                }
+            }
+
+            refinementLink(query, label) {
+                return '<button type="button" class="refinement-link" data-query="' + this.escapeHtml(query) + '">' + this.escapeHtml(label || query) + '</button>';
+            }
+
+            hideCard(element) {
+                element.innerHTML = '';
+                element.classList.add('hidden');
+            }
+
+            cardImage(src) {
+                return src ? '<img class="card-image" src="' + this.escapeHtml(src) + '" alt="" loading="lazy" referrerpolicy="no-referrer">' : '';
+            }
+
+            // Card links come from upstream data; anything but http(s) is shown as plain text
+            cardLink(url, text) {
+                if (!/^https?:\\/\\//i.test(String(url || ''))) {
+                    return this.escapeHtml(text);
+                }
+                return '<a href="' + this.escapeHtml(url) + '" target="_blank" rel="noopener noreferrer">' + this.escapeHtml(text) + '</a>';
+            }
+
+            cardFacts(facts) {
+                const rows = (facts || []).map(fact =>
+                    '<dt>' + this.escapeHtml(fact.label) + '</dt><dd>' + this.escapeHtml(fact.value) + '</dd>'
+                ).join('');
+                return rows ? '<dl class="card-facts">' + rows + '</dl>' : '';
+            }
+
+            getEngineColor(engine) {
                 const colors = {
-                    'DuckDuckGo': '#de5833',
-                    'DuckDuckGo Instant': '#de5833',
-                    'DuckDuckGo Definition': '#de5833',
-                    'DuckDuckGo Answer': '#de5833',
-                    'DuckDuckGo Related': '#de5833',
-                    'Google': '#4285f4',
-                    'Bing': '#0078d4',
-                    'Yahoo': '#7b0099'
+                    'duckduckgo': '#de5833',
+                    'brightData': '#4285f4',
+                    'google': '#4285f4',
+                    'bing': '#0078d4',
+                    'yahoo': '#7b0099'
                 };
-                return colors[source] || '#6b7280';
+                return colors[engine] || '#6b7280';
             }
 
             showError(message) {
@@ -1247,6 +2292,21 @@ server.get('/', (req, res) => {
                 this.errorState.classList.remove('hidden');
             }
 
+            // /read takes the same signed url/exp/sig as the /go link
+            openReader(goUrl) {
+                const locale = this.currentLocale || this.getLocale();
+                this.readerFrame.src = '/read' + goUrl.substring(goUrl.indexOf('?')) +
+                    '&language=' + encodeURIComponent(locale.language) + '&region=' + encodeURIComponent(locale.region);
+                this.readerOriginal.href = goUrl;
+                this.readerPane.classList.remove('hidden');
+                this.readerClose.focus();
+            }
+
+            closeReader() {
+                this.readerPane.classList.add('hidden');
+                this.readerFrame.src = 'about:blank';
+            }
+
             hideAllStates() {
                 this.loadingState.classList.add('hidden');
                 this.resultsContainer.classList.add('hidden');
@@ -1268,10 +2328,26 @@ server.get('/', (req, res) => {
                 // Tüm status itemlar her zaman aynı görünümde kalıyor
             }
 
+            // "Unwrapped google redirect; removed utm_source, fbclid"
+            describeSanitization(sanitized) {
+                const parts = [];
+                if (sanitized.redirect) {
+                    parts.push('Unwrapped ' + sanitized.redirect + ' redirect');
+                }
+                if (sanitized.amp) {
+                    parts.push('Replaced AMP link');
+                }
+                if (sanitized.trackingParams.length > 0) {
+                    parts.push('Removed ' + sanitized.trackingParams.join(', '));
+                }
+                return parts.join('; ');
+            }
+
             escapeHtml(text) {
                 const div = document.createElement('div');
                 div.textContent = text;
-                return div.innerHTML;
+                // innerHTML leaves quotes alone; escape them so values are safe in attributes too
+                return div.innerHTML.replace(/"/g, '&quot;');
             }
         }
 
@@ -1297,5 +2373,101 @@ server.get('/js/app.js', (req, res) => {
   res.send('/* JavaScript will be loaded from static files */');
 });
 
+// Query string of a GET request. The SDK fills req.query on newer releases; older
+// ones only give the raw URL.
+function requestQuery(req: { query?: Record<string, string>; url?: string }): Record<string, string> {
+  if (req.query && typeof req.query === 'object') {
+    return req.query;
+  }
+
+  return queryParams(String(req.url || ''));
+}
+
+// Response headers are not supported by every SDK release; pages that rely on one
+// also carry the matching meta tag
+type HeaderSetter = (name: string, value: string) => void;
+
+function setHeader(res: { setHeader?: HeaderSetter; header?: HeaderSetter }, name: string, value: string): void {
+  if (typeof res.setHeader === 'function') {
+    res.setHeader(name, value);
+  } else if (typeof res.header === 'function') {
+    res.header(name, value);
+  }
+}
+
+function escapeAttribute(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Minimal page for /go. The no-referrer meta tag covers runtimes without header support,
+// and `refreshTo` (already escaped) sends the browser on without any script.
+function outboundPage(title: string, body: string, refreshTo?: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta name="referrer" content="no-referrer">
+    ${refreshTo ? `<meta http-equiv="refresh" content="0; url=${refreshTo}">` : ''}
+    <title>${title} - Mirror Search</title>
+    <style>
+        body { font-family: Arial, sans-serif; margin: 40px; background: #f5f5f5; color: #1f2937; }
+        .container { max-width: 640px; margin: 0 auto; background: white; padding: 30px; border-radius: 10px; box-shadow: 0 2px 10px rgba(0,0,0,0.1); }
+        .target { font-family: monospace; word-break: break-all; background: #fffbeb; border-left: 4px solid #f59e0b; padding: 10px; }
+        a { color: #4f46e5; margin-right: 1rem; }
+        .continue { font-weight: bold; }
+    </style>
+</head>
+<body>
+    <div class="container">${body}
+    </div>
+</body>
+</html>`;
+}
+
+const READER_CSP = "default-src 'none'; style-src 'unsafe-inline'; base-uri 'none'; form-action 'none'";
+
+// Standalone reader page. The article HTML was already reduced to plain markup by the extractor.
+function readerPage(article: ReaderArticle, originalLink: string): string {
+  const meta = [article.siteName, article.byline, article.publishedDate ? article.publishedDate.substring(0, 10) : undefined]
+    .filter(Boolean)
+    .map(part => escapeAttribute(String(part)))
+    .join(' · ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta name="referrer" content="no-referrer">
+    <meta http-equiv="Content-Security-Policy" content="${READER_CSP}">
+    <title>${escapeAttribute(article.title)} - Mirror Search Reader</title>
+    <style>
+        body { font-family: Georgia, serif; margin: 0; padding: 32px 20px; background: #fdfcf8; color: #1f2937; line-height: 1.7; }
+        main { max-width: 680px; margin: 0 auto; }
+        .reader-meta { font-family: Arial, sans-serif; font-size: 0.85rem; color: #6b7280; }
+        .reader-meta a { color: #4f46e5; }
+        h1 { line-height: 1.25; }
+        pre { overflow-x: auto; background: #f3f4f6; padding: 12px; border-radius: 6px; }
+        blockquote { border-left: 3px solid #d1d5db; margin-left: 0; padding-left: 16px; color: #4b5563; }
+        table { border-collapse: collapse; }
+        th, td { border: 1px solid #e5e7eb; padding: 4px 8px; }
+        a { color: #4f46e5; }
+    </style>
+</head>
+<body>
+    <main>
+        <p class="reader-meta">${meta ? `${meta} · ` : ''}${article.wordCount} words · <a href="${escapeAttribute(originalLink)}" target="_blank" rel="noreferrer noopener">Open original</a></p>
+        <h1>${escapeAttribute(article.title)}</h1>
+        <article>${article.html}</article>
+        <p class="reader-meta">Removed ${article.removed.scripts} scripts, ${article.removed.iframes} frames, ${article.removed.trackingPixels} tracking pixels and ${article.removed.images} images.</p>
+    </main>
+</body>
+</html>`;
+}
+
 // Start server
+if (!outboundLinks.sharedSecret) {
+  console.warn(`${LINK_SECRET_ENV} is not set: /go and /read links only work on the instance that signed them, until it restarts`);
+}
 server.start();
\ No newline at end of file
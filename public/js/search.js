@@ -10,28 +10,24 @@ class SearchUtils {
         this.loadHistory();
     }
 
-    // Search suggestions based on input
-    generateSuggestions(input) {
-        if (!input || input.length < 2) {
+    // Search suggestions from the server's /suggest endpoint. The server anonymizes
+    // the prefix before any upstream suggest API sees it.
+    async generateSuggestions(input, locale = {}) {
+        if (!input || input.trim().length < 2) {
             return [];
         }
 
-        const commonQueries = [
-            'how to learn programming',
-            'best privacy tools',
-            'what is blockchain',
-            'learn javascript',
-            'privacy search engine',
-            'how to protect online privacy',
-            'best coding practices',
-            'web development tutorial',
-            'secure browsing tips',
-            'open source alternatives'
-        ];
-
-        return commonQueries
-            .filter(query => query.toLowerCase().includes(input.toLowerCase()))
-            .slice(0, 5);
+        try {
+            const response = await fetch('/suggest', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ query: input, language: locale.language, region: locale.region })
+            });
+            const data = await response.json();
+            return (data.suggestions || []).map(suggestion => suggestion.text);
+        } catch (error) {
+            return [];
+        }
     }
 
     // Add search to history
@@ -177,7 +173,7 @@ class SearchUtils {
             ...result,
             title: this.sanitizeText(result.title),
             snippet: this.sanitizeText(result.snippet),
-            displayUrl: this.formatDisplayUrl(result.url),
+            displayUrl: result.displayUrl || this.formatDisplayUrl(result.url),
             favicon: this.getFaviconUrl(result.url)
         }));
     }
@@ -0,0 +1,94 @@
+/**
+ * Circuit Breaker for Mirror Search
+ * Skips engines that keep failing and probes them again after a cooldown
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerConfig {
+  // Consecutive failures before the circuit opens
+  failureThreshold: number;
+  // How long an open circuit rejects calls before allowing a probe, in milliseconds
+  cooldownMs: number;
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  nextProbeAt?: number;
+  lastError?: string;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures: number = 0;
+  private openedAt?: number;
+  private probeInFlight: boolean = false;
+  private lastError?: string;
+
+  constructor(private config: CircuitBreakerConfig) {}
+
+  // Whether a call may go through right now. An open circuit whose cooldown
+  // has elapsed moves to half-open and lets exactly one probe call through.
+  canRequest(): boolean {
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'open') {
+      if (Date.now() - (this.openedAt || 0) < this.config.cooldownMs) {
+        return false;
+      }
+      this.state = 'half-open';
+    }
+
+    if (this.probeInFlight) {
+      return false;
+    }
+
+    this.probeInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.probeInFlight = false;
+    this.lastError = undefined;
+  }
+
+  recordFailure(error?: unknown): void {
+    this.consecutiveFailures++;
+    this.lastError = error instanceof Error ? error.message : error !== undefined ? String(error) : undefined;
+
+    // A failed probe re-opens the circuit for another full cooldown
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.config.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+
+    this.probeInFlight = false;
+  }
+
+  // The call ended without telling anything about the engine (unparseable page, request
+  // deadline hit): leave the counts alone and let the next call probe again
+  releaseProbe(): void {
+    this.probeInFlight = false;
+  }
+
+  get currentState(): CircuitState {
+    return this.state;
+  }
+
+  snapshot(): CircuitSnapshot {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt,
+      nextProbeAt: this.state === 'open' && this.openedAt !== undefined ? this.openedAt + this.config.cooldownMs : undefined,
+      lastError: this.lastError
+    };
+  }
+}
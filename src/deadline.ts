@@ -0,0 +1,117 @@
+/**
+ * Deadlines for Mirror Search
+ * Promise-race based timeouts - AbortController is not available in the Bless WASM runtime
+ */
+
+export class TimeoutError extends Error {
+  constructor(label: string, public readonly budgetMs: number) {
+    super(`${label} timed out after ${budgetMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Lets the caller stop a pending delay() early. A cancelled delay clears its timer
+// (or stops polling) and never resolves.
+export class DelayHandle {
+  private cancelled = false;
+  private onCancel?: () => void;
+
+  get isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  cancel(): void {
+    this.cancelled = true;
+    this.onCancel?.();
+    this.onCancel = undefined;
+  }
+
+  bind(onCancel: () => void): void {
+    this.onCancel = onCancel;
+  }
+}
+
+// Resolve after `ms` milliseconds. Uses setTimeout where the runtime has it and
+// otherwise yields through Promise.resolve() chains until the wall clock passes
+export function delay(ms: number, handle?: DelayHandle): Promise<void> {
+  if (handle?.isCancelled) {
+    return new Promise<void>(() => undefined);
+  }
+
+  if (ms <= 0) {
+    return Promise.resolve();
+  }
+
+  if (typeof setTimeout === 'function') {
+    return new Promise(resolve => {
+      const timer = setTimeout(resolve, ms);
+      handle?.bind(() => clearTimeout(timer));
+    });
+  }
+
+  const until = Date.now() + ms;
+  return new Promise(resolve => {
+    const poll = () => {
+      if (handle?.isCancelled) {
+        return;
+      }
+      if (Date.now() >= until) {
+        resolve();
+      } else {
+        Promise.resolve().then(poll);
+      }
+    };
+    poll();
+  });
+}
+
+export class Deadline {
+  private readonly expiresAt: number;
+
+  constructor(public readonly budgetMs: number) {
+    this.expiresAt = Date.now() + budgetMs;
+  }
+
+  remaining(): number {
+    return Math.max(0, this.expiresAt - Date.now());
+  }
+
+  get expired(): boolean {
+    return this.remaining() === 0;
+  }
+
+  // Race `promise` against the smaller of `budgetMs` and what is left of this deadline.
+  // If the timeout wins, the losing promise keeps running but its outcome is ignored.
+  race<T>(promise: Promise<T>, label: string, budgetMs?: number): Promise<T> {
+    const budget = Math.min(budgetMs ?? this.remaining(), this.remaining());
+
+    if (budget <= 0) {
+      promise.catch(() => undefined);
+      return Promise.reject(new TimeoutError(label, 0));
+    }
+
+    // Once the promise settles the timer is cancelled, so no timer or polling
+    // loop outlives the race
+    const timer = new DelayHandle();
+    const timeout = delay(budget, timer).then((): T => {
+      throw new TimeoutError(label, budget);
+    });
+
+    const guarded = promise.then(
+      value => {
+        timer.cancel();
+        return value;
+      },
+      error => {
+        timer.cancel();
+        throw error;
+      }
+    );
+
+    return Promise.race([guarded, timeout]);
+  }
+}
+
+export function isTimeoutError(error: unknown): error is TimeoutError {
+  return error instanceof TimeoutError;
+}
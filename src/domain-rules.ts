@@ -0,0 +1,184 @@
+/**
+ * Domain Rules for Mirror Search
+ * Per-request block, lower, raise and pin lists applied to the merged results
+ */
+
+import { SearchResult, InstantAnswer, KnowledgePanel } from './search-result';
+import { parseUrl } from './url-canonical';
+
+export type DomainAction = 'block' | 'lower' | 'raise' | 'pin';
+
+// `pattern` is a host such as `example.com` (matches the host and its subdomains),
+// `*.example.com` (subdomains only) or a glob with `*` anywhere, e.g. `docs.*`
+export interface DomainRule {
+  pattern: string;
+  action: DomainAction;
+}
+
+export interface DomainRuleSummary {
+  rules: number;
+  blocked: number;
+  pinned: number;
+  raised: number;
+  lowered: number;
+}
+
+const DOMAIN_ACTIONS: DomainAction[] = ['block', 'lower', 'raise', 'pin'];
+
+// Rules arrive with every request, so keep lists and patterns to a sane size
+export const MAX_DOMAIN_RULES = 500;
+const MAX_PATTERN_LENGTH = 253;
+const PATTERN_CHARS = /^[a-z0-9*.-]+$/;
+
+// Where each action puts a result; block never gets here
+const ACTION_ORDER: Record<Exclude<DomainAction, 'block'>, number> = { pin: 0, raise: 1, lower: 3 };
+const UNMATCHED_ORDER = 2;
+
+// When several rules match one host the strongest wins: block over pin over raise over lower
+const ACTION_PRIORITY: Record<DomainAction, number> = { block: 3, pin: 2, raise: 1, lower: 0 };
+
+export function isDomainRule(value: unknown): value is DomainRule {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const { pattern, action } = value as Record<string, unknown>;
+  return typeof pattern === 'string' &&
+    pattern.length > 0 &&
+    pattern.length <= MAX_PATTERN_LENGTH &&
+    PATTERN_CHARS.test(pattern.toLowerCase()) &&
+    pattern.replace(/[*.]/g, '').length > 0 &&
+    typeof action === 'string' &&
+    DOMAIN_ACTIONS.includes(action as DomainAction);
+}
+
+export function isDomainRuleList(value: unknown): value is DomainRule[] {
+  return Array.isArray(value) && value.length <= MAX_DOMAIN_RULES && value.every(isDomainRule);
+}
+
+export function matchesDomain(host: string, pattern: string): boolean {
+  const target = host.toLowerCase().replace(/\.$/, '');
+  const rule = pattern.toLowerCase().replace(/\.$/, '');
+
+  if (rule.includes('*')) {
+    return matchesGlob(target, rule);
+  }
+
+  const suffix = rule.replace(/^\./, '');
+  return target === suffix || target.endsWith(`.${suffix}`);
+}
+
+export function domainAction(url: string, rules: DomainRule[]): DomainAction | undefined {
+  const host = parseUrl(url)?.host;
+  if (!host) {
+    return undefined;
+  }
+
+  let strongest: DomainAction | undefined;
+  for (const rule of rules) {
+    if (matchesDomain(host, rule.pattern) && (!strongest || ACTION_PRIORITY[rule.action] > ACTION_PRIORITY[strongest])) {
+      strongest = rule.action;
+    }
+  }
+
+  return strongest;
+}
+
+function isBlocked(url: string | undefined, rules: DomainRule[]): boolean {
+  return !!url && domainAction(url, rules) === 'block';
+}
+
+// Cards are never ranked, so only `block` applies to them: links to a blocked site go,
+// together with the text quoted from it
+export function blockInstantAnswer(answer: InstantAnswer | undefined, rules: DomainRule[]): InstantAnswer | undefined {
+  if (!answer || rules.length === 0) {
+    return answer;
+  }
+
+  const sourceBlocked = isBlocked(answer.source?.url, rules);
+  return {
+    ...answer,
+    abstract: sourceBlocked ? undefined : answer.abstract,
+    source: sourceBlocked ? undefined : answer.source,
+    definition: answer.definition && isBlocked(answer.definition.url, rules) ? undefined : answer.definition,
+    relatedTopics: answer.relatedTopics.filter(topic => !isBlocked(topic.url, rules))
+  };
+}
+
+export function blockKnowledgePanel(panel: KnowledgePanel | undefined, rules: DomainRule[]): KnowledgePanel | undefined {
+  if (!panel || rules.length === 0) {
+    return panel;
+  }
+
+  const sourceBlocked = isBlocked(panel.source?.url, rules);
+  return {
+    ...panel,
+    description: sourceBlocked ? undefined : panel.description,
+    source: sourceBlocked ? undefined : panel.source,
+    website: isBlocked(panel.website, rules) ? undefined : panel.website
+  };
+}
+
+// Drop blocked results and move the rest into tiers: pinned, raised, unmatched, lowered.
+// Each tier keeps the merged order, so rules reorder results but never rescore them.
+export function applyDomainRules(results: SearchResult[], rules: DomainRule[]): { results: SearchResult[]; summary: DomainRuleSummary } {
+  const summary: DomainRuleSummary = { rules: rules.length, blocked: 0, pinned: 0, raised: 0, lowered: 0 };
+  if (rules.length === 0) {
+    return { results, summary };
+  }
+
+  const tiered = results
+    .map((result, index) => ({ result, index, action: domainAction(result.url, rules) }))
+    .filter(entry => {
+      if (entry.action === 'block') {
+        summary.blocked++;
+        return false;
+      }
+      return true;
+    });
+
+  for (const { action } of tiered) {
+    if (action === 'pin') {
+      summary.pinned++;
+    } else if (action === 'raise') {
+      summary.raised++;
+    } else if (action === 'lower') {
+      summary.lowered++;
+    }
+  }
+
+  const order = (action: DomainAction | undefined) =>
+    action && action !== 'block' ? ACTION_ORDER[action] : UNMATCHED_ORDER;
+
+  return {
+    results: tiered
+      .sort((a, b) => order(a.action) - order(b.action) || a.index - b.index)
+      .map(entry => entry.result),
+    summary
+  };
+}
+
+// Patterns come from the client, so globs are matched without a regex that could
+// backtrack: the first and last segments are anchored, the ones between are taken
+// at their earliest position, which is linear in the host length
+function matchesGlob(host: string, pattern: string): boolean {
+  const segments = pattern.split('*');
+  const first = segments[0];
+  const last = segments[segments.length - 1];
+
+  if (host.length < first.length + last.length || !host.startsWith(first) || !host.endsWith(last)) {
+    return false;
+  }
+
+  let position = first.length;
+  const end = host.length - last.length;
+  for (const segment of segments.slice(1, -1)) {
+    const index = host.indexOf(segment, position);
+    if (index < 0 || index + segment.length > end) {
+      return false;
+    }
+    position = index + segment.length;
+  }
+
+  return true;
+}
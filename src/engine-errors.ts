@@ -0,0 +1,88 @@
+/**
+ * Engine Errors for Mirror Search
+ * Typed upstream failures so the retry policy can tell transient errors from permanent ones
+ */
+
+import { SearchErrorInfo } from './search-engines';
+import { isTimeoutError } from './deadline';
+
+export class EngineError extends Error {
+  constructor(message: string, public readonly retryable: boolean) {
+    super(message);
+    this.name = 'EngineError';
+  }
+}
+
+// Upstream answered with a non-OK status; 429 and 5xx are worth retrying
+export class EngineHttpError extends EngineError {
+  constructor(public readonly status: number, message: string) {
+    super(message, status === 429 || status >= 500);
+    this.name = 'EngineHttpError';
+  }
+}
+
+// The request never got a response (DNS, connection reset, runtime fetch failure)
+export class EngineNetworkError extends EngineError {
+  constructor(message: string) {
+    super(message, true);
+    this.name = 'EngineNetworkError';
+  }
+}
+
+// Upstream answered but the body could not be understood; retrying will not help
+export class EngineParseError extends EngineError {
+  constructor(message: string) {
+    super(message, false);
+    this.name = 'EngineParseError';
+  }
+}
+
+// Upstream served a CAPTCHA, consent or "unusual traffic" page instead of results
+export class EngineBlockedError extends EngineError {
+  constructor(message: string) {
+    super(message, false);
+    this.name = 'EngineBlockedError';
+  }
+}
+
+// Upstream answered normally but had nothing for the query; says nothing about the engine's health
+export class EngineNoResultsError extends EngineError {
+  constructor(message: string) {
+    super(message, false);
+    this.name = 'EngineNoResultsError';
+  }
+}
+
+// Every selected engine failed; carries the per-engine errors for the API response
+export class SearchUnavailableError extends Error {
+  constructor(public readonly errorInfo: SearchErrorInfo) {
+    const details = Object.entries(errorInfo.engines)
+      .map(([name, message]) => `${name}: ${message}`)
+      .join('; ');
+    super(`All search engines failed${errorInfo.timedOut ? ' (request timed out)' : ''}${details ? ` - ${details}` : ''}`);
+    this.name = 'SearchUnavailableError';
+  }
+}
+
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof EngineError && error.retryable;
+}
+
+// Errors that mean the engine itself is unwell and count towards opening its circuit.
+// Timeouts only count when the engine used up its own budget, not the request's:
+// pass whether the request deadline had expired when the error was thrown.
+export function isEngineFailure(error: unknown, requestExpired: boolean): boolean {
+  return error instanceof EngineHttpError ||
+    error instanceof EngineNetworkError ||
+    error instanceof EngineBlockedError ||
+    (isTimeoutError(error) && !requestExpired);
+}
+
+// fetch() wrapper that turns transport failures into EngineNetworkError
+export async function engineFetch(url: string, init: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    throw new EngineNetworkError(`Network error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Engine Registry for Mirror Search
+ * Pluggable search providers that can be added, removed or reordered via config
+ */
+
+import { SearchResult, InstantAnswer, FeaturedSnippet, KnowledgePanel, QueryRefinements } from './search-result';
+import { OperatorType } from './query-operators';
+import { SearchLocale } from './locale';
+import { SearchFilters, FilterSupport } from './search-filters';
+
+export interface ProviderCapabilities {
+  pagination: boolean;
+  instantAnswers: boolean;
+  htmlScraping: boolean;
+  // Search operators the engine understands natively; the rest are emulated by filtering
+  operators: OperatorType[];
+  // Safe search / time range applied by the engine itself; the rest are post-filtered
+  filters: FilterSupport;
+}
+
+export interface ProviderSearchOptions {
+  maxResults: number;
+  // Zero-based index of the first result wanted
+  offset: number;
+  // Continuation state this provider returned for the previous page
+  cursor?: string;
+  // Language and region the results should be localized for
+  locale: SearchLocale;
+  filters: SearchFilters;
+}
+
+export interface ProviderResponse {
+  results: SearchResult[];
+  hasMore?: boolean;
+  // Provider-specific state needed to fetch the next page
+  nextCursor?: string;
+  // Only set on the first page by engines with capabilities.instantAnswers
+  instantAnswer?: InstantAnswer;
+  // First page only; kept out of `results` so they never take an organic rank
+  featuredSnippet?: FeaturedSnippet;
+  knowledgePanel?: KnowledgePanel;
+  // Related searches, People also ask and spelling corrections from the engine
+  refinements?: QueryRefinements;
+}
+
+export interface ProviderHealth {
+  available: boolean;
+  endpoint?: string;
+  message?: string;
+}
+
+export interface SearchProvider {
+  readonly name: string;
+  readonly displayName: string;
+  readonly capabilities: ProviderCapabilities;
+  // Skipped by the default chain; only queried when selected by name
+  readonly explicitOnly?: boolean;
+  search(query: string, options: ProviderSearchOptions): Promise<ProviderResponse>;
+  health(): Promise<ProviderHealth>;
+}
+
+export class EngineRegistry {
+  private providers: Map<string, SearchProvider> = new Map();
+  private order: string[] = [];
+
+  register(provider: SearchProvider, position?: number): void {
+    if (this.providers.has(provider.name)) {
+      this.unregister(provider.name);
+    }
+
+    this.providers.set(provider.name, provider);
+
+    if (position === undefined || position < 0 || position > this.order.length) {
+      this.order.push(provider.name);
+    } else {
+      this.order.splice(position, 0, provider.name);
+    }
+  }
+
+  unregister(name: string): boolean {
+    if (!this.providers.has(name)) {
+      return false;
+    }
+
+    this.providers.delete(name);
+    this.order = this.order.filter(entry => entry !== name);
+    return true;
+  }
+
+  // Reorder registered providers; unknown names are ignored and
+  // providers missing from the list keep their relative order at the end
+  reorder(names: string[]): void {
+    const known = names.filter(name => this.providers.has(name));
+    const rest = this.order.filter(name => !known.includes(name));
+    this.order = [...new Set(known), ...rest];
+  }
+
+  get(name: string): SearchProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  list(): SearchProvider[] {
+    return this.order.map(name => this.providers.get(name) as SearchProvider);
+  }
+
+  // Resolve the providers to query, honoring an explicit selection when given
+  resolve(names?: string[]): SearchProvider[] {
+    if (!names || names.length === 0) {
+      return this.list().filter(provider => !provider.explicitOnly);
+    }
+
+    return names
+      .filter(name => this.providers.has(name))
+      .map(name => this.providers.get(name) as SearchProvider);
+  }
+
+  get size(): number {
+    return this.providers.size;
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Fixture Corpus for Mirror Search
+ * Recorded organic results served by the offline fixture engine
+ */
+
+export interface FixtureDocument {
+  title: string;
+  url: string;
+  snippet: string;
+  publishedDate?: string;
+}
+
+// Captured from real result pages and trimmed; dates are fixed so output never drifts
+export const FIXTURE_CORPUS: FixtureDocument[] = [
+  {
+    title: 'The Rust Programming Language - The Rust Programming Language',
+    url: 'https://doc.rust-lang.org/book/',
+    snippet: 'This book assumes that you have written code in another programming language but does not make any assumptions about which one.',
+    publishedDate: '2024-05-02T00:00:00Z'
+  },
+  {
+    title: 'Rust Programming Language',
+    url: 'https://www.rust-lang.org/',
+    snippet: 'A language empowering everyone to build reliable and efficient software. Rust is blazingly fast and memory-efficient, with no runtime or garbage collector.'
+  },
+  {
+    title: 'Rust by Example',
+    url: 'https://doc.rust-lang.org/rust-by-example/',
+    snippet: 'Rust by Example (RBE) is a collection of runnable examples that illustrate various Rust concepts and standard libraries.',
+    publishedDate: '2024-03-21T00:00:00Z'
+  },
+  {
+    title: 'WebAssembly',
+    url: 'https://webassembly.org/',
+    snippet: 'WebAssembly (abbreviated Wasm) is a binary instruction format for a stack-based virtual machine, designed as a portable compilation target for programming languages.'
+  },
+  {
+    title: 'WebAssembly - MDN Web Docs',
+    url: 'https://developer.mozilla.org/en-US/docs/WebAssembly',
+    snippet: 'WebAssembly is a type of code that can be run in modern web browsers. It is a low-level assembly-like language with a compact binary format.',
+    publishedDate: '2024-07-15T00:00:00Z'
+  },
+  {
+    title: 'Compiling from Rust to WebAssembly - MDN Web Docs',
+    url: 'https://developer.mozilla.org/en-US/docs/WebAssembly/Rust_to_Wasm',
+    snippet: 'If you have some Rust code, you can compile it into WebAssembly. This tutorial takes you through all you need to know to compile a Rust project to wasm.',
+    publishedDate: '2024-02-08T00:00:00Z'
+  },
+  {
+    title: 'Using promises - JavaScript | MDN',
+    url: 'https://developer.mozilla.org/en-US/docs/Web/JavaScript/Guide/Using_promises',
+    snippet: 'A Promise is an object representing the eventual completion or failure of an asynchronous operation. Most people are consumers of already-created promises.',
+    publishedDate: '2024-06-11T00:00:00Z'
+  },
+  {
+    title: 'async function - JavaScript | MDN',
+    url: 'https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Statements/async_function',
+    snippet: 'The async function declaration creates a binding of a new async function to a given name. The await keyword is permitted within the function body.',
+    publishedDate: '2024-04-30T00:00:00Z'
+  },
+  {
+    title: 'TypeScript: JavaScript With Syntax For Types.',
+    url: 'https://www.typescriptlang.org/',
+    snippet: 'TypeScript extends JavaScript by adding types to the language. TypeScript speeds up your development experience by catching errors before you run your code.'
+  },
+  {
+    title: 'Welcome to Python.org',
+    url: 'https://www.python.org/',
+    snippet: 'The official home of the Python Programming Language. Python is a programming language that lets you work quickly and integrate systems more effectively.'
+  },
+  {
+    title: 'The Python Tutorial - Python documentation',
+    url: 'https://docs.python.org/3/tutorial/index.html',
+    snippet: 'Python is an easy to learn, powerful programming language. It has efficient high-level data structures and a simple but effective approach to object-oriented programming.',
+    publishedDate: '2024-10-07T00:00:00Z'
+  },
+  {
+    title: 'Token bucket - Wikipedia',
+    url: 'https://en.wikipedia.org/wiki/Token_bucket',
+    snippet: 'The token bucket is an algorithm used in packet-switched networks and rate limiter implementations to check that data transmissions conform to defined limits.'
+  },
+  {
+    title: 'Rate limiting - Wikipedia',
+    url: 'https://en.wikipedia.org/wiki/Rate_limiting',
+    snippet: 'In computer networks, rate limiting is used to control the rate of requests sent or received by a network interface controller, for example to prevent DoS attacks.'
+  },
+  {
+    title: 'Circuit Breaker - Martin Fowler',
+    url: 'https://martinfowler.com/bliki/CircuitBreaker.html',
+    snippet: 'The basic idea behind the circuit breaker is very simple. You wrap a protected function call in a circuit breaker object, which monitors for failures.',
+    publishedDate: '2014-03-06T00:00:00Z'
+  },
+  {
+    title: 'Exponential Backoff And Jitter - AWS Architecture Blog',
+    url: 'https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/',
+    snippet: 'Introducing OCC: retry with exponential backoff and jitter reduces contention and spreads retries of competing clients over time.',
+    publishedDate: '2015-03-04T00:00:00Z'
+  },
+  {
+    title: 'Surveillance Self-Defense - Electronic Frontier Foundation',
+    url: 'https://ssd.eff.org/',
+    snippet: 'Tips, tools and how-tos for safer online communications. Learn how to protect your privacy online and defend yourself against surveillance.'
+  },
+  {
+    title: 'Cover Your Tracks - EFF',
+    url: 'https://coveryourtracks.eff.org/',
+    snippet: 'See how trackers view your browser. Test whether your browser is protected against tracking and browser fingerprinting.'
+  },
+  {
+    title: 'Privacy Guides: Protect Your Data Online',
+    url: 'https://www.privacyguides.org/en/',
+    snippet: 'Privacy Guides is the most popular and trustworthy non-profit privacy resource, recommending private search engines, browsers and encrypted tools.',
+    publishedDate: '2024-09-18T00:00:00Z'
+  },
+  {
+    title: 'Neapolitan Pizza Dough Recipe - Serious Eats',
+    url: 'https://www.seriouseats.com/basic-neapolitan-pizza-dough-recipe',
+    snippet: 'A basic Neapolitan pizza dough needs only flour, water, salt and yeast. A long cold fermentation gives the crust its flavor and airy texture.',
+    publishedDate: '2023-08-14T00:00:00Z'
+  },
+  {
+    title: 'Pizza - Wikipedia',
+    url: 'https://en.wikipedia.org/wiki/Pizza',
+    snippet: 'Pizza is an Italian dish typically consisting of a flattened base of leavened wheat-based dough topped with tomato, cheese, and other ingredients, baked at a high temperature.'
+  },
+  {
+    title: 'Climate Change: Vital Signs of the Planet - NASA',
+    url: 'https://science.nasa.gov/climate-change/',
+    snippet: 'NASA tracks global temperature, sea level and ice sheets to understand how climate change is affecting our home planet.',
+    publishedDate: '2024-10-01T00:00:00Z'
+  },
+  {
+    title: 'National Weather Service',
+    url: 'https://www.weather.gov/',
+    snippet: 'Weather forecasts, warnings and current conditions for the United States from the National Weather Service.'
+  }
+];
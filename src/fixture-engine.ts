@@ -0,0 +1,83 @@
+/**
+ * Fixture Engine for Mirror Search
+ * Deterministic offline provider backed by a recorded corpus, for development and tests
+ */
+
+import { SearchResult, createResult } from './search-result';
+import {
+  SearchProvider,
+  ProviderCapabilities,
+  ProviderSearchOptions,
+  ProviderResponse,
+  ProviderHealth
+} from './engine-registry';
+import { FixtureDocument, FIXTURE_CORPUS } from './fixture-corpus';
+import { EngineNoResultsError } from './engine-errors';
+
+// Words the anonymizer inserts or that carry no meaning on their own
+const STOP_WORDS = ['a', 'an', 'and', 'the', 'of', 'to', 'in', 'for', 'on', 'with', 'how', 'what', 'is', 'number'];
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.includes(token));
+}
+
+export class FixtureProvider implements SearchProvider {
+  readonly name = 'fixture';
+  readonly displayName = 'Offline Fixture Corpus';
+  // Never part of the default chain; only used when selected by name
+  readonly explicitOnly = true;
+  readonly capabilities: ProviderCapabilities = {
+    pagination: true,
+    instantAnswers: false,
+    htmlScraping: false,
+    // Everything is emulated, which keeps the post-filters exercised in tests
+    operators: [],
+    filters: { safeSearch: false, timeRange: false }
+  };
+
+  constructor(private corpus: FixtureDocument[] = FIXTURE_CORPUS) {}
+
+  async search(query: string, options: ProviderSearchOptions): Promise<ProviderResponse> {
+    const terms = tokenize(query);
+
+    // Score by matched query terms (title matches count double); ties keep corpus order
+    const ranked = this.corpus
+      .map((document, index) => {
+        const title = tokenize(document.title);
+        const body = tokenize(`${document.url} ${document.snippet}`);
+        const score = terms.reduce((total, term) =>
+          total + (title.includes(term) ? 2 : 0) + (body.includes(term) ? 1 : 0), 0);
+        return { document, index, score };
+      })
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score || a.index - b.index);
+
+    if (ranked.length === 0) {
+      throw new EngineNoResultsError(`No fixture results for query '${query.trim()}'`);
+    }
+
+    const end = options.offset + options.maxResults;
+    const results: SearchResult[] = ranked.slice(options.offset, end).map(({ document }) => createResult({
+      title: document.title,
+      url: document.url,
+      snippet: document.snippet,
+      publishedDate: document.publishedDate
+    }));
+
+    return {
+      results,
+      hasMore: ranked.length > end
+    };
+  }
+
+  async health(): Promise<ProviderHealth> {
+    return {
+      available: this.corpus.length > 0,
+      endpoint: 'local corpus',
+      message: this.corpus.length > 0 ? undefined : 'Fixture corpus is empty'
+    };
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * HTML Search Engines for Mirror Search
+ * Direct Google, Bing, DuckDuckGo and Yahoo result pages, parsed with the cheerio parsers
+ */
+
+import {
+  SearchProvider,
+  ProviderCapabilities,
+  ProviderSearchOptions,
+  ProviderResponse,
+  ProviderHealth
+} from './engine-registry';
+import { ALL_OPERATORS } from './query-operators';
+import { googleLocaleParams, bingLocaleParams, duckDuckGoRegion, yahooLocaleParams } from './locale';
+import { googleFilterParams, bingFilterParams, duckDuckGoFilterParams, yahooFilterParams } from './search-filters';
+import {
+  ParsedResults,
+  parseGoogleResults,
+  parseBingResults,
+  parseDuckDuckGoResults,
+  parseYahooResults,
+  getPrivacyHeaders
+} from './search-parsers';
+import { EngineBlockedError, EngineHttpError, EngineNoResultsError, EngineParseError, engineFetch } from './engine-errors';
+import { ParserHealthMonitor } from './parser-health';
+import { parseUrl } from './url-canonical';
+
+// Shared fetch -> parse -> validate flow; subclasses only know their URL and parser
+abstract class HtmlSearchProvider implements SearchProvider {
+  abstract readonly name: string;
+  abstract readonly displayName: string;
+  abstract readonly capabilities: ProviderCapabilities;
+
+  // Page fetched by health(); must be covered by the fetch permissions in bls.toml
+  protected abstract readonly origin: string;
+
+  // Text that only shows up on CAPTCHA, consent or "unusual traffic" pages
+  protected abstract readonly blockMarkers: string[];
+
+  // Query parameter that carries the search terms in this engine's URLs
+  protected abstract readonly queryKey: string;
+
+  protected abstract buildUrl(query: string, options: ProviderSearchOptions): string;
+
+  protected abstract parse(html: string): ParsedResults;
+
+  // Every parsed page is reported to the monitor, if one is attached
+  constructor(protected readonly parserHealth?: ParserHealthMonitor) {}
+
+  async search(query: string, options: ProviderSearchOptions): Promise<ProviderResponse> {
+    const cleanQuery = query.trim();
+    if (!cleanQuery) {
+      throw new Error('Query too short');
+    }
+
+    const response = await engineFetch(this.pageUrl(cleanQuery, options), {
+      method: 'GET',
+      headers: getPrivacyHeaders(options.locale)
+    });
+
+    if (!response.ok) {
+      throw new EngineHttpError(response.status, `${this.displayName} HTTP error: ${response.status} ${response.statusText}`);
+    }
+
+    let html: string;
+    try {
+      html = await response.text();
+    } catch (error) {
+      throw new EngineParseError(`${this.displayName} returned an unreadable body: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const parsed = this.parse(html);
+    const blocked = parsed.results.length === 0 && this.blockMarkers.some(marker => html.includes(marker));
+    this.parserHealth?.recordPage(this.name, parsed, blocked);
+
+    if (parsed.results.length === 0) {
+      // Retrying a block page only digs the hole deeper; let the circuit breaker back off
+      if (blocked) {
+        throw new EngineBlockedError(`${this.displayName} blocked the request (CAPTCHA or consent page)`);
+      }
+      throw new EngineNoResultsError(`No results from ${this.displayName}`);
+    }
+
+    const nextCursor = parsed.nextPageUrl ? this.pageCursor(parsed.nextPageUrl) : undefined;
+    return {
+      results: parsed.results.slice(0, options.maxResults),
+      hasMore: !!nextCursor,
+      nextCursor,
+      refinements: parsed.refinements
+    };
+  }
+
+  // Follow the next-page link from the previous page when there is one; it keeps
+  // whatever paging state the engine needs. Locale and filter parameters the link
+  // does not carry are added back. Only links back to this engine are followed.
+  private pageUrl(query: string, options: ProviderSearchOptions): string {
+    const built = this.buildUrl(query, options);
+    const cursor = options.cursor;
+    const cursorUrl = cursor ? parseUrl(cursor) : null;
+
+    if (!cursor || !cursorUrl || cursorUrl.scheme !== 'https' || cursorUrl.host !== parseUrl(this.origin)?.host) {
+      return built;
+    }
+
+    const cursorPairs = queryPairs(cursor);
+    const cursorKeys = new Set(cursorPairs.map(pairKey));
+    const pairs = [
+      ...cursorPairs,
+      ...queryPairs(built).filter(pair => !cursorKeys.has(pairKey(pair)))
+    ];
+    return `${cursor.split('#')[0].split('?')[0]}?${pairs.join('&')}`;
+  }
+
+  // The next-page link without the search terms, so cursors never hold the query
+  private pageCursor(nextPageUrl: string): string {
+    const base = nextPageUrl.split('#')[0].split('?')[0];
+    const kept = queryPairs(nextPageUrl).filter(pair => pairKey(pair) !== this.queryKey);
+    return kept.length > 0 ? `${base}?${kept.join('&')}` : base;
+  }
+
+  async health(): Promise<ProviderHealth> {
+    try {
+      const response = await fetch(this.origin, {
+        method: 'GET'
+      });
+
+      return {
+        available: response.ok,
+        endpoint: this.origin,
+        message: response.ok ? undefined : `${this.displayName} returned status ${response.status}`
+      };
+    } catch (error) {
+      return {
+        available: false,
+        endpoint: this.origin,
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+}
+
+// Raw `name=value` pairs of a URL's query, left encoded as written
+function queryPairs(url: string): string[] {
+  const query = url.split('#')[0].split('?').slice(1).join('?');
+  return query.split('&').filter(pair => pair.length > 0);
+}
+
+function pairKey(pair: string): string {
+  return pair.split('=')[0];
+}
+
+export class GoogleHtmlProvider extends HtmlSearchProvider {
+  readonly name = 'google';
+  readonly displayName = 'Google (direct HTML)';
+  readonly capabilities: ProviderCapabilities = {
+    pagination: true,
+    instantAnswers: false,
+    htmlScraping: true,
+    operators: ALL_OPERATORS,
+    filters: { safeSearch: true, timeRange: true }
+  };
+
+  protected readonly origin = 'https://www.google.com/';
+  protected readonly blockMarkers = ['/sorry/index', 'unusual traffic', 'consent.google.com'];
+  protected readonly queryKey = 'q';
+
+  protected buildUrl(query: string, options: ProviderSearchOptions): string {
+    const filterParams = googleFilterParams(options.filters);
+    return `https://www.google.com/search?q=${encodeURIComponent(query)}&num=${options.maxResults}` +
+      `&${googleLocaleParams(options.locale)}` +
+      (filterParams ? `&${filterParams}` : '') +
+      (options.offset > 0 ? `&start=${options.offset}` : '');
+  }
+
+  protected parse(html: string): ParsedResults {
+    return parseGoogleResults(html);
+  }
+}
+
+export class BingHtmlProvider extends HtmlSearchProvider {
+  readonly name = 'bing';
+  readonly displayName = 'Bing (direct HTML)';
+  readonly capabilities: ProviderCapabilities = {
+    pagination: true,
+    instantAnswers: false,
+    htmlScraping: true,
+    operators: ALL_OPERATORS,
+    filters: { safeSearch: true, timeRange: true }
+  };
+
+  protected readonly origin = 'https://www.bing.com/';
+  protected readonly blockMarkers = ['captcha', 'b_captcha'];
+  protected readonly queryKey = 'q';
+
+  protected buildUrl(query: string, options: ProviderSearchOptions): string {
+    // Bing's `first` is 1-based
+    return `https://www.bing.com/search?q=${encodeURIComponent(query)}&count=${options.maxResults}` +
+      `&${bingLocaleParams(options.locale)}` +
+      `&${bingFilterParams(options.filters)}` +
+      (options.offset > 0 ? `&first=${options.offset + 1}` : '');
+  }
+
+  protected parse(html: string): ParsedResults {
+    return parseBingResults(html);
+  }
+}
+
+export class DuckDuckGoHtmlProvider extends HtmlSearchProvider {
+  readonly name = 'duckduckgoHtml';
+  readonly displayName = 'DuckDuckGo (direct HTML)';
+  readonly capabilities: ProviderCapabilities = {
+    pagination: true,
+    instantAnswers: false,
+    htmlScraping: true,
+    operators: ALL_OPERATORS,
+    filters: { safeSearch: true, timeRange: true }
+  };
+
+  protected readonly origin = 'https://html.duckduckgo.com/html/';
+  protected readonly blockMarkers = ['anomaly-modal', 'challenge-form'];
+  protected readonly queryKey = 'q';
+
+  protected buildUrl(query: string, options: ProviderSearchOptions): string {
+    // The HTML endpoint pages with s (offset) and dc (1-based position)
+    return `https://html.duckduckgo.com/html/?q=${encodeURIComponent(query)}` +
+      `&kl=${duckDuckGoRegion(options.locale)}` +
+      `&${duckDuckGoFilterParams(options.filters)}` +
+      (options.offset > 0 ? `&s=${options.offset}&dc=${options.offset + 1}` : '');
+  }
+
+  protected parse(html: string): ParsedResults {
+    return parseDuckDuckGoResults(html);
+  }
+}
+
+export class YahooHtmlProvider extends HtmlSearchProvider {
+  readonly name = 'yahoo';
+  readonly displayName = 'Yahoo (direct HTML)';
+  readonly capabilities: ProviderCapabilities = {
+    pagination: true,
+    instantAnswers: false,
+    htmlScraping: true,
+    operators: ['site', 'phrase', 'exclude'],
+    // Yahoo has no past-year option, so time ranges are post-filtered
+    filters: { safeSearch: true, timeRange: false }
+  };
+
+  protected readonly origin = 'https://search.yahoo.com/';
+  protected readonly blockMarkers = ['consent.yahoo.com', 'guce.yahoo.com'];
+  protected readonly queryKey = 'p';
+
+  protected buildUrl(query: string, options: ProviderSearchOptions): string {
+    // Yahoo's `b` is 1-based
+    return `https://search.yahoo.com/search?p=${encodeURIComponent(query)}&n=${options.maxResults}` +
+      `&${yahooLocaleParams(options.locale)}` +
+      `&${yahooFilterParams(options.filters)}` +
+      (options.offset > 0 ? `&b=${options.offset + 1}` : '');
+  }
+
+  protected parse(html: string): ParsedResults {
+    return parseYahooResults(html);
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Search Locale for Mirror Search
+ * Language and region selection, mapped to each engine's own parameters
+ */
+
+export interface SearchLocale {
+  // ISO 639-1 language code, e.g. "de"
+  language: string;
+  // ISO 3166-1 alpha-2 region code, e.g. "at"
+  region: string;
+}
+
+export interface LocaleOption {
+  language: string;
+  region: string;
+  label: string;
+}
+
+export const DEFAULT_LOCALE: SearchLocale = { language: 'en', region: 'us' };
+
+// Locales offered in the UI; any valid language/region pair is accepted by the API
+export const LOCALE_OPTIONS: LocaleOption[] = [
+  { language: 'en', region: 'us', label: 'English (United States)' },
+  { language: 'en', region: 'gb', label: 'English (United Kingdom)' },
+  { language: 'de', region: 'de', label: 'Deutsch (Deutschland)' },
+  { language: 'fr', region: 'fr', label: 'Français (France)' },
+  { language: 'es', region: 'es', label: 'Español (España)' },
+  { language: 'it', region: 'it', label: 'Italiano (Italia)' },
+  { language: 'nl', region: 'nl', label: 'Nederlands (Nederland)' },
+  { language: 'pt', region: 'br', label: 'Português (Brasil)' },
+  { language: 'tr', region: 'tr', label: 'Türkçe (Türkiye)' },
+  { language: 'ja', region: 'jp', label: '日本語 (日本)' }
+];
+
+const CODE_PATTERN = /^[a-z]{2}$/;
+
+// DuckDuckGo's kl codes mostly follow region-language, with a few historical exceptions
+const DDG_REGION_ALIASES: Record<string, string> = { gb: 'uk' };
+const DDG_LANGUAGE_ALIASES: Record<string, string> = { ja: 'jp', ko: 'kr' };
+
+export function isValidLocaleCode(code: unknown): code is string {
+  return typeof code === 'string' && CODE_PATTERN.test(code.toLowerCase());
+}
+
+// Fill in missing or malformed parts from the default locale
+export function resolveLocale(language?: string, region?: string, fallback: SearchLocale = DEFAULT_LOCALE): SearchLocale {
+  return {
+    language: isValidLocaleCode(language) ? language.toLowerCase() : fallback.language,
+    region: isValidLocaleCode(region) ? region.toLowerCase() : fallback.region
+  };
+}
+
+// "de-AT,de;q=0.9,en;q=0.5" - English stays as a low-priority fallback like a real browser
+export function acceptLanguage(locale: SearchLocale): string {
+  const tag = `${locale.language}-${locale.region.toUpperCase()}`;
+  if (locale.language === 'en') {
+    return `${tag},en;q=0.9`;
+  }
+  return `${tag},${locale.language};q=0.9,en;q=0.5`;
+}
+
+// Google: interface language and country
+export function googleLocaleParams(locale: SearchLocale): string {
+  return `hl=${locale.language}&gl=${locale.region}`;
+}
+
+// DuckDuckGo: a single region-language code
+export function duckDuckGoRegion(locale: SearchLocale): string {
+  const region = DDG_REGION_ALIASES[locale.region] || locale.region;
+  const language = DDG_LANGUAGE_ALIASES[locale.language] || locale.language;
+  return `${region}-${language}`;
+}
+
+// Yahoo: restrict results to the language
+export function yahooLocaleParams(locale: SearchLocale): string {
+  return `vl=lang_${locale.language}`;
+}
+
+// Bing: UI/results language and country code
+export function bingLocaleParams(locale: SearchLocale): string {
+  return `setlang=${locale.language}&cc=${locale.region.toUpperCase()}`;
+}
@@ -0,0 +1,199 @@
+/**
+ * Outbound Links for Mirror Search
+ * Signed, short-lived /go links so result clicks leave without a referrer
+ */
+
+export interface OutboundLinkConfig {
+  // HMAC key shared by every instance that serves the site. Defaults to the
+  // MIRROR_SEARCH_LINK_SECRET environment variable; without either, each instance
+  // signs with its own random key and only accepts its own links.
+  secret?: string;
+  // How long a signed link stays valid, in milliseconds
+  ttlMs: number;
+  // Show a warning page before sending the user to a plain-HTTP site
+  httpInterstitial: boolean;
+}
+
+export type OutboundLinkCheck =
+  | { valid: true; url: string; insecure: boolean }
+  | { valid: false; reason: 'invalid' | 'expired' };
+
+export const DEFAULT_OUTBOUND_LINK_CONFIG: OutboundLinkConfig = {
+  ttlMs: 60 * 60 * 1000, // 1 hour
+  httpInterstitial: true
+};
+
+// The Bless WASM runtime has no crypto module, so SHA-256 and HMAC are done by hand
+const SHA256_K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+];
+
+const SHA256_BLOCK_SIZE = 64;
+
+export const LINK_SECRET_ENV = 'MIRROR_SEARCH_LINK_SECRET';
+
+export class OutboundLinks {
+  private config: OutboundLinkConfig;
+  private key: number[];
+  private shared: boolean;
+
+  constructor(config: Partial<OutboundLinkConfig> = {}) {
+    this.config = { ...DEFAULT_OUTBOUND_LINK_CONFIG, ...config };
+    const secret = this.config.secret || environmentSecret();
+    this.shared = !!secret;
+
+    this.key = secret ? utf8Bytes(secret) : randomBytes(32);
+  }
+
+  // False when the key is random to this instance
+  get sharedSecret(): boolean {
+    return this.shared;
+  }
+
+  get httpInterstitial(): boolean {
+    return this.config.httpInterstitial;
+  }
+
+  // "/go?url=<target>&exp=<expiry>&sig=<hmac>"; the target stays readable so hovering
+  // a result still shows where it leads
+  sign(url: string, now: number = Date.now()): string {
+    const expires = now + this.config.ttlMs;
+    return `/go?url=${encodeURIComponent(url)}&exp=${expires}&sig=${this.signature(url, expires)}`;
+  }
+
+  verify(url: unknown, exp: unknown, sig: unknown, now: number = Date.now()): OutboundLinkCheck {
+    if (typeof url !== 'string' || typeof exp !== 'string' || typeof sig !== 'string' || !/^\d+$/.test(exp)) {
+      return { valid: false, reason: 'invalid' };
+    }
+
+    // Only web pages: never javascript:, data: or other schemes, even if signed
+    if (!/^https?:\/\/[^\s/?#]+/i.test(url)) {
+      return { valid: false, reason: 'invalid' };
+    }
+
+    const expires = parseInt(exp, 10);
+    if (!constantTimeEqual(sig.toLowerCase(), this.signature(url, expires))) {
+      return { valid: false, reason: 'invalid' };
+    }
+
+    if (now > expires) {
+      return { valid: false, reason: 'expired' };
+    }
+
+    return { valid: true, url, insecure: /^http:/i.test(url) };
+  }
+
+  private signature(url: string, expires: number): string {
+    return toHex(hmacSha256(this.key, utf8Bytes(`${expires}\n${url}`)));
+  }
+}
+
+export const outboundLinks = new OutboundLinks();
+
+function environmentSecret(): string | undefined {
+  const runtime = globalThis as typeof globalThis & { process?: { env?: Record<string, string | undefined> } };
+  return runtime.process?.env?.[LINK_SECRET_ENV] || undefined;
+}
+
+function hmacSha256(key: number[], message: number[]): number[] {
+  let block = key.length > SHA256_BLOCK_SIZE ? sha256(key) : key;
+  block = block.concat(new Array(SHA256_BLOCK_SIZE - block.length).fill(0));
+
+  const inner = block.map(byte => byte ^ 0x36);
+  const outer = block.map(byte => byte ^ 0x5c);
+  return sha256(outer.concat(sha256(inner.concat(message))));
+}
+
+function sha256(message: number[]): number[] {
+  const hash = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+  const bitLength = message.length * 8;
+
+  // Pad to a multiple of 64 bytes: 0x80, zeros, then the 64-bit big-endian bit length
+  const padded = message.concat([0x80]);
+  while (padded.length % SHA256_BLOCK_SIZE !== 56) {
+    padded.push(0);
+  }
+  const high = Math.floor(bitLength / 0x100000000);
+  padded.push((high >>> 24) & 0xff, (high >>> 16) & 0xff, (high >>> 8) & 0xff, high & 0xff);
+  padded.push((bitLength >>> 24) & 0xff, (bitLength >>> 16) & 0xff, (bitLength >>> 8) & 0xff, bitLength & 0xff);
+
+  const words = new Array<number>(64);
+  for (let offset = 0; offset < padded.length; offset += SHA256_BLOCK_SIZE) {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      words[i] = (padded[j] << 24) | (padded[j + 1] << 16) | (padded[j + 2] << 8) | padded[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(words[i - 15], 7) ^ rotr(words[i - 15], 18) ^ (words[i - 15] >>> 3);
+      const s1 = rotr(words[i - 2], 17) ^ rotr(words[i - 2], 19) ^ (words[i - 2] >>> 10);
+      words[i] = (words[i - 16] + s0 + words[i - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + words[i]) | 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    [a, b, c, d, e, f, g, h].forEach((value, i) => {
+      hash[i] = (hash[i] + value) | 0;
+    });
+  }
+
+  return hash.flatMap(word => [(word >>> 24) & 0xff, (word >>> 16) & 0xff, (word >>> 8) & 0xff, word & 0xff]);
+}
+
+function rotr(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits));
+}
+
+// TextEncoder is not guaranteed in the runtime; encodeURIComponent already emits UTF-8
+function utf8Bytes(text: string): number[] {
+  const bytes: number[] = [];
+  const encoded = encodeURIComponent(text);
+  for (let i = 0; i < encoded.length; i++) {
+    if (encoded[i] === '%') {
+      bytes.push(parseInt(encoded.substring(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(encoded.charCodeAt(i));
+    }
+  }
+  return bytes;
+}
+
+function toHex(bytes: number[]): string {
+  return bytes.map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    difference |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return difference === 0;
+}
+
+// Web Crypto where the runtime has it; Math.random only as a last resort
+function randomBytes(length: number): number[] {
+  const webCrypto = (globalThis as typeof globalThis & { crypto?: Crypto }).crypto;
+  if (webCrypto && typeof webCrypto.getRandomValues === 'function') {
+    return Array.from(webCrypto.getRandomValues(new Uint8Array(length)));
+  }
+  return Array.from({ length }, () => Math.floor(Math.random() * 256));
+}
@@ -0,0 +1,78 @@
+/**
+ * Pagination for Mirror Search
+ * Opaque page cursors that carry the result offset plus per-engine continuation state
+ */
+
+export interface PageCursor {
+  offset: number;
+  // Provider name -> engine-specific cursor (next-page URL, API offset, ...)
+  engines?: Record<string, string>;
+}
+
+export interface PageRequest {
+  page?: number;
+  offset?: number;
+  cursor?: string;
+}
+
+export interface ResolvedPage {
+  page: number;
+  offset: number;
+  engineCursors: Record<string, string>;
+}
+
+export interface PaginationInfo {
+  page: number;
+  pageSize: number;
+  offset: number;
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
+// Cursors are URI-encoded JSON so they survive query strings without base64 (btoa is not
+// guaranteed in the WASM runtime). They are opaque to clients and never hold the query.
+export function encodeCursor(cursor: PageCursor): string {
+  return encodeURIComponent(JSON.stringify(cursor));
+}
+
+export function decodeCursor(cursor: string): PageCursor | null {
+  try {
+    const parsed = JSON.parse(decodeURIComponent(cursor));
+    if (!parsed || typeof parsed.offset !== 'number' || parsed.offset < 0) {
+      return null;
+    }
+
+    const engines: Record<string, string> = {};
+    if (parsed.engines && typeof parsed.engines === 'object') {
+      for (const [name, value] of Object.entries(parsed.engines)) {
+        if (typeof value === 'string') {
+          engines[name] = value;
+        }
+      }
+    }
+
+    return { offset: Math.floor(parsed.offset), engines };
+  } catch (error) {
+    return null;
+  }
+}
+
+// A cursor wins over an explicit offset, which wins over a 1-based page number
+export function resolvePage(request: PageRequest, pageSize: number): ResolvedPage {
+  const decoded = request.cursor ? decodeCursor(request.cursor) : null;
+
+  let offset = 0;
+  if (decoded) {
+    offset = decoded.offset;
+  } else if (typeof request.offset === 'number' && request.offset > 0) {
+    offset = Math.floor(request.offset);
+  } else if (typeof request.page === 'number' && request.page > 1) {
+    offset = (Math.floor(request.page) - 1) * pageSize;
+  }
+
+  return {
+    page: Math.floor(offset / pageSize) + 1,
+    offset,
+    engineCursors: decoded?.engines || {}
+  };
+}
@@ -0,0 +1,225 @@
+/**
+ * Parser Health Monitor for Mirror Search
+ * Tracks what the HTML parsers extract per page and flags likely SERP layout changes
+ */
+
+import { SearchResult } from './search-result';
+import { ParsedResults } from './search-parsers';
+import { canonicalizeUrl } from './url-canonical';
+
+export interface ParserHealthConfig {
+  // Parsed pages kept per parser
+  windowSize: number;
+  // Consecutive non-blocked pages with no results (or no hits for a selector) before flagging
+  emptyPageThreshold: number;
+  // Share of results missing a field (0-1) before flagging
+  missingFieldThreshold: number;
+  // How often the canary query runs, in milliseconds; 0 disables it
+  canaryIntervalMs: number;
+}
+
+// Known-good canary: a query every engine answers with stable top results
+export interface CanaryFixture {
+  query: string;
+  minResults: number;
+  // A live run must return at least one of these
+  expectedUrls: string[];
+}
+
+// The expected URLs are the top results of the saved page in
+// tests/fixtures/serp/google-canary.html; the parser tests keep the two in step
+export const CANARY_FIXTURE: CanaryFixture = {
+  query: 'wikipedia',
+  minResults: 3,
+  expectedUrls: [
+    'https://www.wikipedia.org/',
+    'https://en.wikipedia.org/wiki/Wikipedia',
+    'https://en.wikipedia.org/wiki/Main_Page'
+  ]
+};
+
+export interface CanaryRun {
+  at: number;
+  passed: boolean;
+  // The engine served a block page; says nothing about the parser
+  blocked?: boolean;
+  results: number;
+  message?: string;
+}
+
+export interface ParserHealthSnapshot {
+  pages: number;
+  blockedPages: number;
+  resultsPerPage: number;
+  emptyPages: number;
+  missingFieldRates: {
+    snippet: number;
+    displayUrl: number;
+  };
+  // Selector -> total hits over the window
+  selectorHits: Record<string, number>;
+  lastPageAt?: number;
+  layoutBreak: boolean;
+  warnings: string[];
+  canary?: CanaryRun;
+}
+
+interface PageSample {
+  at: number;
+  results: number;
+  missingSnippet: number;
+  missingDisplayUrl: number;
+  selectorHits: Record<string, number>;
+  blocked: boolean;
+}
+
+// Minimum number of results before missing-field rates are trusted
+const MIN_RESULTS_FOR_RATES = 5;
+
+export class ParserHealthMonitor {
+  private samples: Map<string, PageSample[]> = new Map();
+  private canaries: Map<string, CanaryRun> = new Map();
+
+  constructor(private config: ParserHealthConfig) {}
+
+  // Record one parsed page. Blocked pages (CAPTCHA, consent) are counted but
+  // never taken as evidence of a layout change.
+  recordPage(parser: string, parsed: ParsedResults, blocked: boolean = false): void {
+    const samples = this.samples.get(parser) || [];
+
+    samples.push({
+      at: Date.now(),
+      results: parsed.results.length,
+      missingSnippet: parsed.results.filter(result => !result.snippet).length,
+      missingDisplayUrl: parsed.results.filter(result => !result.displayUrl).length,
+      selectorHits: { ...parsed.selectorHits },
+      blocked
+    });
+
+    if (samples.length > this.config.windowSize) {
+      samples.splice(0, samples.length - this.config.windowSize);
+    }
+
+    this.samples.set(parser, samples);
+  }
+
+  recordCanary(parser: string, run: CanaryRun): void {
+    this.canaries.set(parser, run);
+  }
+
+  // Checked lazily (like circuit breaker cooldowns) since the runtime has no timers to rely on
+  canaryDue(parser: string, now: number = Date.now()): boolean {
+    if (this.config.canaryIntervalMs <= 0) {
+      return false;
+    }
+
+    const last = this.canaries.get(parser);
+    return !last || now - last.at >= this.config.canaryIntervalMs;
+  }
+
+  snapshot(parser: string): ParserHealthSnapshot {
+    const samples = this.samples.get(parser) || [];
+    const parsedPages = samples.filter(sample => !sample.blocked);
+    const totalResults = parsedPages.reduce((sum, sample) => sum + sample.results, 0);
+
+    const selectorHits: Record<string, number> = {};
+    for (const sample of parsedPages) {
+      for (const [selector, hits] of Object.entries(sample.selectorHits)) {
+        selectorHits[selector] = (selectorHits[selector] || 0) + hits;
+      }
+    }
+
+    const missingFieldRates = {
+      snippet: rate(parsedPages.reduce((sum, sample) => sum + sample.missingSnippet, 0), totalResults),
+      displayUrl: rate(parsedPages.reduce((sum, sample) => sum + sample.missingDisplayUrl, 0), totalResults)
+    };
+
+    const canary = this.canaries.get(parser);
+    const warnings = this.warnings(parsedPages, totalResults, missingFieldRates);
+    if (canary && !canary.passed && !canary.blocked) {
+      warnings.push(`Canary query failed: ${canary.message || 'unexpected results'}`);
+    }
+
+    return {
+      pages: samples.length,
+      blockedPages: samples.length - parsedPages.length,
+      resultsPerPage: parsedPages.length > 0 ? Math.round((totalResults / parsedPages.length) * 10) / 10 : 0,
+      emptyPages: parsedPages.filter(sample => sample.results === 0).length,
+      missingFieldRates,
+      selectorHits,
+      lastPageAt: samples.length > 0 ? samples[samples.length - 1].at : undefined,
+      layoutBreak: warnings.length > 0,
+      warnings,
+      canary
+    };
+  }
+
+  // Every parser that has parsed a page or run a canary
+  report(): Record<string, ParserHealthSnapshot> {
+    const report: Record<string, ParserHealthSnapshot> = {};
+    const parsers = new Set([...this.samples.keys(), ...this.canaries.keys()]);
+
+    for (const parser of parsers) {
+      report[parser] = this.snapshot(parser);
+    }
+
+    return report;
+  }
+
+  private warnings(parsedPages: PageSample[], totalResults: number, missingFieldRates: ParserHealthSnapshot['missingFieldRates']): string[] {
+    const warnings: string[] = [];
+    const streak = this.config.emptyPageThreshold;
+    const recent = parsedPages.slice(-streak);
+    const earlier = parsedPages.slice(0, -streak);
+
+    if (recent.length >= streak && recent.every(sample => sample.results === 0)) {
+      warnings.push(`Last ${streak} pages parsed no results`);
+    }
+
+    // A selector that used to match and has gone quiet is the most specific sign of a markup change
+    if (recent.length >= streak) {
+      const selectors = new Set(earlier.flatMap(sample => Object.keys(sample.selectorHits)));
+      for (const selector of selectors) {
+        const matchedBefore = earlier.some(sample => (sample.selectorHits[selector] || 0) > 0);
+        const matchedRecently = recent.some(sample => (sample.selectorHits[selector] || 0) > 0);
+        if (matchedBefore && !matchedRecently) {
+          warnings.push(`Selector stopped matching: ${selector}`);
+        }
+      }
+    }
+
+    if (totalResults >= MIN_RESULTS_FOR_RATES) {
+      for (const [field, fieldRate] of Object.entries(missingFieldRates)) {
+        if (fieldRate > this.config.missingFieldThreshold) {
+          warnings.push(`${field} missing on ${Math.round(fieldRate * 100)}% of results`);
+        }
+      }
+    }
+
+    return warnings;
+  }
+}
+
+// Compare canary results with the known-good fixture
+export function checkCanary(results: SearchResult[], fixture: CanaryFixture = CANARY_FIXTURE): CanaryRun {
+  const run = { at: Date.now(), results: results.length };
+
+  if (results.length < fixture.minResults) {
+    return { ...run, passed: false, message: `Expected at least ${fixture.minResults} results, got ${results.length}` };
+  }
+
+  if (results.some(result => !result.title || !/^https?:\/\//i.test(result.url))) {
+    return { ...run, passed: false, message: 'Results with missing titles or URLs' };
+  }
+
+  const expected = new Set(fixture.expectedUrls.map(canonicalizeUrl));
+  if (!results.some(result => expected.has(canonicalizeUrl(result.url)))) {
+    return { ...run, passed: false, message: `None of the known-good results for '${fixture.query}' came back` };
+  }
+
+  return { ...run, passed: true };
+}
+
+function rate(missing: number, total: number): number {
+  return total > 0 ? Math.round((missing / total) * 100) / 100 : 0;
+}
@@ -0,0 +1,144 @@
+/**
+ * Search Operators for Mirror Search
+ * Extracts operators (site:, filetype:, "phrases", -terms, ...) before anonymization,
+ * rebuilds them per engine, and emulates the ones an engine cannot apply natively
+ */
+
+import { SearchResult } from './search-result';
+import { parseUrl } from './url-canonical';
+
+export type OperatorType = 'site' | 'filetype' | 'intitle' | 'inurl' | 'phrase' | 'exclude';
+
+export interface QueryOperator {
+  type: OperatorType;
+  value: string;
+  // -site:example.com excludes a site instead of restricting to it
+  negated: boolean;
+}
+
+export interface ParsedQuery {
+  // Free text that is safe to hand to the anonymizer
+  text: string;
+  operators: QueryOperator[];
+}
+
+export const ALL_OPERATORS: OperatorType[] = ['site', 'filetype', 'intitle', 'inurl', 'phrase', 'exclude'];
+
+const PREFIX_OPERATORS: OperatorType[] = ['site', 'filetype', 'intitle', 'inurl'];
+
+// -?"quoted phrase" | -?key:"quoted value" | -?key:value | -?word
+const TOKEN_PATTERN = /(-?)"([^"]*)"|(-?)([a-z]+):"([^"]*)"|(-?)([a-z]+):(\S+)|(\S+)/gi;
+
+export function parseQuery(query: string): ParsedQuery {
+  const operators: QueryOperator[] = [];
+  const words: string[] = [];
+  let match: RegExpExecArray | null;
+
+  TOKEN_PATTERN.lastIndex = 0;
+  while ((match = TOKEN_PATTERN.exec(query)) !== null) {
+    const [raw, phraseNeg, phrase, quotedNeg, quotedKey, quotedValue, plainNeg, plainKey, plainValue, word] = match;
+
+    if (phrase !== undefined) {
+      if (phrase.trim()) {
+        operators.push({ type: 'phrase', value: phrase.trim(), negated: phraseNeg === '-' });
+      }
+      continue;
+    }
+
+    const key = (quotedKey || plainKey || '').toLowerCase() as OperatorType;
+    if (key && PREFIX_OPERATORS.includes(key)) {
+      const value = (quotedValue !== undefined ? quotedValue : plainValue).trim();
+      if (value) {
+        operators.push({ type: key, value, negated: (quotedNeg || plainNeg) === '-' });
+      }
+      continue;
+    }
+
+    // A lone "-" is punctuation, "-word" excludes a term
+    const token = word !== undefined ? word : raw;
+    if (token.length > 1 && token.startsWith('-')) {
+      operators.push({ type: 'exclude', value: token.substring(1), negated: true });
+    } else {
+      words.push(token);
+    }
+  }
+
+  return {
+    text: words.join(' '),
+    operators
+  };
+}
+
+function formatOperator(operator: QueryOperator): string {
+  const sign = operator.negated ? '-' : '';
+  const value = /\s/.test(operator.value) ? `"${operator.value}"` : operator.value;
+
+  switch (operator.type) {
+    case 'phrase':
+      return `${sign}"${operator.value}"`;
+    case 'exclude':
+      return `-${value}`;
+    default:
+      return `${sign}${operator.type}:${value}`;
+  }
+}
+
+// Rebuild a query for an engine. Operators the engine supports are written in native
+// syntax; unsupported ones are dropped, except that positive phrase/intitle values stay
+// as plain words so the engine still searches for them.
+export function buildQuery(text: string, operators: QueryOperator[], supported: OperatorType[] = ALL_OPERATORS): string {
+  const parts = text.trim() ? [text.trim()] : [];
+
+  for (const operator of operators) {
+    if (supported.includes(operator.type)) {
+      parts.push(formatOperator(operator));
+    } else if (!operator.negated && (operator.type === 'phrase' || operator.type === 'intitle')) {
+      parts.push(operator.value);
+    }
+  }
+
+  return parts.join(' ');
+}
+
+export function unsupportedOperators(operators: QueryOperator[], supported: OperatorType[]): QueryOperator[] {
+  return operators.filter(operator => !supported.includes(operator.type));
+}
+
+function matchesOperator(result: SearchResult, operator: QueryOperator): boolean {
+  const value = operator.value.toLowerCase();
+  const url = result.url.toLowerCase();
+  const title = (result.title || '').toLowerCase();
+  const text = `${title} ${(result.snippet || '').toLowerCase()}`;
+
+  switch (operator.type) {
+    case 'site': {
+      const host = parseUrl(url)?.host || '';
+      const site = value.replace(/^\*\./, '').replace(/^www\./, '');
+      return host === site || host.endsWith(`.${site}`) || host === `www.${site}`;
+    }
+    case 'filetype': {
+      const path = parseUrl(url)?.path || url;
+      return path.endsWith(`.${value.replace(/^\./, '')}`);
+    }
+    case 'intitle':
+      return title.includes(value);
+    case 'inurl':
+      return url.includes(value);
+    case 'phrase':
+      return text.includes(value);
+    case 'exclude':
+      // Matching the excluded term is what the (negated) operator rejects
+      return text.includes(value) || url.includes(value);
+  }
+}
+
+// Emulate operators an engine could not apply by filtering its results
+export function filterByOperators(results: SearchResult[], operators: QueryOperator[]): SearchResult[] {
+  if (operators.length === 0) {
+    return results;
+  }
+
+  return results.filter(result => operators.every(operator =>
+    operator.negated ? !matchesOperator(result, operator) : matchesOperator(result, operator)
+  ));
+}
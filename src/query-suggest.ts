@@ -0,0 +1,131 @@
+/**
+ * Query Suggestions for Mirror Search
+ * Prefix index of popular anonymized queries plus optional upstream suggest APIs
+ */
+
+import { SearchLocale, DEFAULT_LOCALE, duckDuckGoRegion } from './locale';
+import { Deadline } from './deadline';
+import { EngineHttpError, EngineParseError, engineFetch } from './engine-errors';
+import { getPrivacyHeaders } from './search-parsers';
+
+export type SuggestionSource = 'local' | 'duckduckgo' | 'google';
+
+export interface SuggestConfig {
+  // Upstream suggest APIs asked after the local index, in order; empty keeps suggestions local
+  upstream: Exclude<SuggestionSource, 'local'>[];
+  maxSuggestions: number;
+  // A query is only suggested once this many searches have used it
+  minCount: number;
+  // Queries kept in the local index; the least used are evicted first
+  maxEntries: number;
+  // Budget for each upstream call, in milliseconds
+  upstreamTimeout: number;
+}
+
+export interface Suggestion {
+  text: string;
+  source: SuggestionSource;
+}
+
+interface IndexEntry {
+  query: string;
+  count: number;
+  lastUsed: number;
+}
+
+// Only anonymized queries go in here, never what the user typed
+export class SuggestionIndex {
+  private entries: Map<string, IndexEntry> = new Map();
+
+  constructor(private config: Pick<SuggestConfig, 'minCount' | 'maxEntries'>) {}
+
+  record(query: string): void {
+    const key = normalizeSuggestion(query);
+    if (key.length < 2) {
+      return;
+    }
+
+    const entry = this.entries.get(key);
+    if (entry) {
+      entry.count++;
+      entry.lastUsed = Date.now();
+      return;
+    }
+
+    if (this.entries.size >= this.config.maxEntries) {
+      this.evict();
+    }
+
+    this.entries.set(key, { query: key, count: 1, lastUsed: Date.now() });
+  }
+
+  // Most used first, then most recent
+  lookup(prefix: string, limit: number): string[] {
+    const key = normalizeSuggestion(prefix);
+    if (!key) {
+      return [];
+    }
+
+    return [...this.entries.values()]
+      .filter(entry => entry.count >= this.config.minCount && entry.query.startsWith(key) && entry.query !== key)
+      .sort((a, b) => b.count - a.count || b.lastUsed - a.lastUsed)
+      .slice(0, limit)
+      .map(entry => entry.query);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private evict(): void {
+    let victim: IndexEntry | undefined;
+    for (const entry of this.entries.values()) {
+      if (!victim || entry.count < victim.count || (entry.count === victim.count && entry.lastUsed < victim.lastUsed)) {
+        victim = entry;
+      }
+    }
+
+    if (victim) {
+      this.entries.delete(victim.query);
+    }
+  }
+}
+
+export function normalizeSuggestion(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// Ask one upstream suggest API for completions of an already anonymized prefix
+export async function fetchUpstreamSuggestions(
+  source: Exclude<SuggestionSource, 'local'>,
+  prefix: string,
+  locale: SearchLocale = DEFAULT_LOCALE,
+  budgetMs: number = 1500
+): Promise<string[]> {
+  const url = source === 'google'
+    ? `https://suggestqueries.google.com/complete/search?client=firefox&hl=${locale.language}&q=${encodeURIComponent(prefix)}`
+    : `https://duckduckgo.com/ac/?kl=${duckDuckGoRegion(locale)}&q=${encodeURIComponent(prefix)}`;
+
+  const response = await new Deadline(budgetMs).race(engineFetch(url, {
+    method: 'GET',
+    headers: { ...getPrivacyHeaders(locale), 'Accept': 'application/json' }
+  }), `${source} suggest`);
+
+  if (!response.ok) {
+    throw new EngineHttpError(response.status, `${source} suggest error: ${response.status}`);
+  }
+
+  let data: any;
+  try {
+    data = await response.json();
+  } catch (error) {
+    throw new EngineParseError(`${source} suggest returned invalid JSON`);
+  }
+
+  // Google (client=firefox): [prefix, [completion, ...]]; DuckDuckGo: [{ phrase }, ...]
+  const completions: unknown[] = source === 'google'
+    ? (Array.isArray(data) && Array.isArray(data[1]) ? data[1] : [])
+    : (Array.isArray(data) ? data.map((item: any) => item && item.phrase) : []);
+
+  return completions.filter((text): text is string => typeof text === 'string' && text.trim().length > 0);
+}
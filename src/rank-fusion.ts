@@ -0,0 +1,48 @@
+/**
+ * Rank Fusion for Mirror Search
+ * Merges result lists from several engines with Reciprocal Rank Fusion (RRF)
+ */
+
+import { SearchResult } from './search-result';
+import { canonicalizeUrl, mergeDuplicate } from './url-canonical';
+
+export interface RankedList {
+  engine: string;
+  results: SearchResult[];
+  weight?: number;
+}
+
+// Standard RRF damping constant from Cormack et al.; larger values flatten rank differences
+export const RRF_K = 60;
+
+export function reciprocalRankFusion(lists: RankedList[], k: number = RRF_K): SearchResult[] {
+  const merged = new Map<string, { result: SearchResult; score: number; firstSeen: number }>();
+  let order = 0;
+
+  for (const list of lists) {
+    const weight = list.weight ?? 1;
+
+    list.results.forEach((result, index) => {
+      const key = canonicalizeUrl(result.url);
+      const contribution = weight / (k + index + 1);
+      const existing = merged.get(key);
+
+      if (existing) {
+        existing.score += contribution;
+        mergeDuplicate(existing.result, { ...result, engines: [list.engine] });
+        return;
+      }
+
+      merged.set(key, {
+        result: { ...result, engines: [list.engine] },
+        score: contribution,
+        firstSeen: order++
+      });
+    });
+  }
+
+  // Highest fused score first; ties keep the order results were first seen in
+  return Array.from(merged.values())
+    .sort((a, b) => b.score - a.score || a.firstSeen - b.firstSeen)
+    .map(({ result, score }) => ({ ...result, score }));
+}
@@ -0,0 +1,407 @@
+/**
+ * Reader View for Mirror Search
+ * Fetches a result page server-side and keeps only its main article text
+ */
+
+import * as cheerio from 'cheerio';
+import { AnyNode, Element, isTag } from 'domhandler';
+import { SearchLocale, DEFAULT_LOCALE } from './locale';
+import { Deadline } from './deadline';
+import { engineFetch } from './engine-errors';
+import { getPrivacyHeaders } from './search-parsers';
+import { parseUrl } from './url-canonical';
+import { sanitizeUrl } from './url-sanitizer';
+
+export interface ReaderArticle {
+  url: string;
+  title: string;
+  siteName?: string;
+  byline?: string;
+  publishedDate?: string;
+  excerpt: string;
+  // Article markup reduced to text, headings, lists, quotes, code, tables and links
+  html: string;
+  text: string;
+  wordCount: number;
+  // Elements dropped before extraction
+  removed: {
+    scripts: number;
+    iframes: number;
+    trackingPixels: number;
+    images: number;
+  };
+}
+
+export class ReaderError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'ReaderError';
+  }
+}
+
+// Pages that declare a larger body are refused; others stop being read at this size
+const MAX_HTML_LENGTH = 2 * 1024 * 1024;
+const DEFAULT_FETCH_TIMEOUT = 10000;
+
+// The runtime only fetches origins listed under [deployment].permissions in bls.toml.
+// Keep this list in step with it: results elsewhere get no reader view.
+export const READER_ORIGINS = [
+  'https://en.wikipedia.org/'
+];
+
+// Paragraphs shorter than this do not count towards a candidate's score
+const MIN_PARAGRAPH_LENGTH = 25;
+
+// Class and id hints, as in Mozilla's Readability
+const POSITIVE_HINTS = /article|body|content|entry|main|page|post|text|blog|story/i;
+const NEGATIVE_HINTS = /comment|meta|footer|footnote|sidebar|sponsor|share|social|related|promo|advert|\bads?\b|banner|cookie|consent|newsletter|subscribe|popup|modal|menu|nav|breadcrumb|widget|outbrain|taboola/i;
+
+const SCRIPT_TAGS = 'script, noscript, template';
+const FRAME_TAGS = 'iframe, frame, frameset, object, embed, applet, portal';
+const NOISE_TAGS = 'style, link, meta, form, button, input, select, textarea, svg, canvas, video, audio, nav, footer, aside, dialog';
+
+// Hosts whose images are beacons rather than content
+const TRACKER_HOSTS = /(^|\.)(doubleclick\.net|google-analytics\.com|googletagmanager\.com|facebook\.com|facebook\.net|scorecardresearch\.com|quantserve\.com|pixel\.wp\.com|bat\.bing\.com|analytics\.twitter\.com|ads\.linkedin\.com|px\.ads\.linkedin\.com|hotjar\.com|chartbeat\.net|parsely\.com)$/;
+
+// Markup kept in the article; everything else is unwrapped to its text
+const KEPT_TAGS = new Set([
+  'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+  'blockquote', 'pre', 'code', 'em', 'i', 'strong', 'b', 'sub', 'sup', 'a',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td', 'figure', 'figcaption'
+]);
+
+// Fetch a page the way the HTML engines fetch result pages: rotating user agent, no cookies,
+// Do Not Track. Only the page itself is requested; nothing it references is loaded.
+export async function fetchArticle(url: string, locale: SearchLocale = DEFAULT_LOCALE, timeoutMs: number = DEFAULT_FETCH_TIMEOUT): Promise<ReaderArticle> {
+  if (!isFetchableUrl(url)) {
+    throw new ReaderError('Only public http(s) pages can be opened in reader view', 400);
+  }
+  if (!canReadUrl(url)) {
+    throw new ReaderError('This site is not in the fetch permissions of this deployment', 403);
+  }
+
+  const deadline = new Deadline(timeoutMs);
+  const response = await deadline.race(engineFetch(url, {
+    method: 'GET',
+    headers: getPrivacyHeaders(locale)
+  }), 'Reader fetch');
+
+  if (!response.ok) {
+    throw new ReaderError(`The page answered with HTTP ${response.status}`, 502);
+  }
+
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType && !/html/i.test(contentType)) {
+    throw new ReaderError(`Reader view only supports HTML pages, not ${contentType.split(';')[0]}`, 415);
+  }
+
+  const declaredLength = parseInt(response.headers.get('content-length') || '', 10);
+  if (declaredLength > MAX_HTML_LENGTH) {
+    throw new ReaderError('The page is larger than reader view accepts (2 MB)', 413);
+  }
+
+  const html = await deadline.race(readCapped(response, MAX_HTML_LENGTH), 'Reader fetch');
+  return extractArticle(html, url);
+}
+
+// Read at most `limit` bytes of the body. Streams are read chunk by chunk and cancelled
+// at the cap; runtimes without streams or TextDecoder only offer the whole body.
+async function readCapped(response: Response, limit: number): Promise<string> {
+  const reader = response.body && typeof response.body.getReader === 'function' ? response.body.getReader() : undefined;
+  if (!reader || typeof TextDecoder === 'undefined') {
+    const text = await response.text();
+    return text.length > limit ? text.substring(0, limit) : text;
+  }
+
+  const decoder = new TextDecoder();
+  let html = '';
+  let bytes = 0;
+
+  while (bytes < limit) {
+    const { done, value } = await reader.read();
+    if (done || !value) {
+      break;
+    }
+    bytes += value.length;
+    html += decoder.decode(value, { stream: true });
+  }
+
+  reader.cancel().catch(() => undefined);
+  return html.length > limit ? html.substring(0, limit) : html;
+}
+
+// Readability-style extraction: score block elements by the paragraphs they hold,
+// take the best one plus siblings that look like part of the same article
+export function extractArticle(html: string, url: string): ReaderArticle {
+  const $ = cheerio.load(html);
+
+  const title = metaContent($, 'og:title') || $('title').first().text().trim() || $('h1').first().text().trim() || url;
+  const siteName = metaContent($, 'og:site_name');
+  const byline = metaContent($, 'author') || $('[rel="author"], .byline, .author').first().text().trim() || undefined;
+  const publishedDate = normalizeDate(metaContent($, 'article:published_time') || $('time[datetime]').first().attr('datetime'));
+  const description = metaContent($, 'og:description') || metaContent($, 'description');
+
+  const removed = {
+    scripts: $(SCRIPT_TAGS).length,
+    iframes: $(FRAME_TAGS).length,
+    trackingPixels: 0,
+    images: 0
+  };
+  $(SCRIPT_TAGS).remove();
+  $(FRAME_TAGS).remove();
+  $(NOISE_TAGS).remove();
+
+  $('img, picture, source').each((_, element) => {
+    const $image = $(element);
+    if (isTrackingPixel($image, url)) {
+      removed.trackingPixels++;
+    } else if (element.tagName === 'img') {
+      removed.images++;
+    }
+  });
+  // Images would be loaded from the publisher (and its CDN), so none are kept
+  $('img, picture, source').remove();
+
+  $('*').each((_, element) => {
+    const $element = $(element);
+    const hints = `${$element.attr('class') || ''} ${$element.attr('id') || ''}`;
+    if (hints.trim() && NEGATIVE_HINTS.test(hints) && !POSITIVE_HINTS.test(hints) && !$element.is('html, body')) {
+      $element.remove();
+    }
+  });
+
+  const $content = bestCandidate($);
+  const articleHtml = cleanMarkup($, $content, url);
+  const text = plainText(articleHtml);
+
+  if (!text) {
+    throw new ReaderError('No readable text found on this page', 422);
+  }
+
+  return {
+    url,
+    title,
+    siteName,
+    byline: byline && byline.length <= 100 ? byline : undefined,
+    publishedDate,
+    excerpt: description || truncate(text, 200),
+    html: articleHtml,
+    text,
+    wordCount: text.split(' ').length,
+    removed
+  };
+}
+
+function bestCandidate($: cheerio.CheerioAPI): cheerio.Cheerio<Element> {
+  const scores = new Map<Element, number>();
+
+  const addScore = (element: AnyNode | null, points: number) => {
+    if (!element || !isTag(element)) {
+      return;
+    }
+    if (!scores.has(element)) {
+      scores.set(element, initialScore($, element));
+    }
+    scores.set(element, (scores.get(element) as number) + points);
+  };
+
+  $('p, pre, td').each((_, element) => {
+    const text = $(element).text().replace(/\s+/g, ' ').trim();
+    if (text.length < MIN_PARAGRAPH_LENGTH) {
+      return;
+    }
+
+    // One point for the paragraph, one per comma, one per 100 characters (up to 3)
+    const points = text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = element.parent;
+    addScore(parent, points);
+    addScore(parent && parent.parent, points / 2);
+  });
+
+  let best: Element | undefined;
+  let bestScore = 0;
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - linkDensity($, element));
+    scores.set(element, adjusted);
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+
+  if (!best) {
+    return $('article').first().length > 0 ? $('article').first() : $('body');
+  }
+
+  // Siblings that scored well on their own (a split article body) come along
+  const threshold = Math.max(10, bestScore * 0.2);
+  const $best = $(best);
+  const $parts = $best.parent().children().filter((_, sibling) =>
+    sibling === best || (scores.get(sibling) ?? 0) >= threshold
+  );
+
+  return $parts.length > 1 ? $parts : $best;
+}
+
+function initialScore($: cheerio.CheerioAPI, element: Element): number {
+  const tagScores: Record<string, number> = { article: 10, main: 8, div: 5, section: 3, pre: 3, td: 3, blockquote: 3, form: -3, ol: -3, ul: -3, li: -3, th: -5, h1: -5, h2: -5, h3: -5 };
+  const hints = `${$(element).attr('class') || ''} ${$(element).attr('id') || ''}`;
+  let score = tagScores[element.tagName] || 0;
+
+  if (POSITIVE_HINTS.test(hints)) {
+    score += 25;
+  }
+  if (NEGATIVE_HINTS.test(hints)) {
+    score -= 25;
+  }
+
+  return score;
+}
+
+// Share of the element's text that sits inside links; navigation blocks are mostly links
+function linkDensity($: cheerio.CheerioAPI, element: Element): number {
+  const textLength = $(element).text().replace(/\s+/g, ' ').trim().length;
+  if (textLength === 0) {
+    return 1;
+  }
+
+  const linkLength = $(element).find('a').toArray()
+    .reduce((sum, link) => sum + $(link).text().replace(/\s+/g, ' ').trim().length, 0);
+  return Math.min(1, linkLength / textLength);
+}
+
+// Keep structural markup only: no attributes except absolute, tracking-free link targets
+function cleanMarkup($: cheerio.CheerioAPI, $content: cheerio.Cheerio<Element>, pageUrl: string): string {
+  const $article = cheerio.load('<article></article>');
+  const $root = $article('article');
+  $content.each((_, element) => {
+    $root.append($.html(element));
+  });
+
+  // Innermost first, so unwrapping a parent never revisits a removed child
+  $root.find('*').toArray().reverse().forEach(element => {
+    const $element = $article(element);
+    const tag = element.tagName;
+
+    if (!KEPT_TAGS.has(tag)) {
+      $element.replaceWith($element.contents());
+      return;
+    }
+
+    const href = tag === 'a' ? resolveUrl($element.attr('href') || '', pageUrl) : undefined;
+    for (const name of Object.keys(element.attribs || {})) {
+      $element.removeAttr(name);
+    }
+
+    if (tag === 'a') {
+      if (href) {
+        $element.attr('href', sanitizeUrl(href).url);
+        $element.attr('rel', 'noreferrer noopener');
+        $element.attr('target', '_blank');
+      } else {
+        $element.replaceWith($element.contents());
+      }
+    }
+  });
+
+  // Empty paragraphs and list items left behind by removed widgets
+  $root.find('p, li, figure, blockquote').each((_, element) => {
+    if (!$article(element).text().trim()) {
+      $article(element).remove();
+    }
+  });
+
+  return ($root.html() || '').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// Block elements are separated by a space so headings and paragraphs do not run together
+function plainText(html: string): string {
+  const $ = cheerio.load(html);
+  $('p, h1, h2, h3, h4, h5, h6, li, dt, dd, blockquote, pre, th, td, figcaption, br').after(' ');
+  return $.root().text().replace(/\s+/g, ' ').trim();
+}
+
+function isTrackingPixel($image: cheerio.Cheerio<Element>, pageUrl: string): boolean {
+  const width = parseInt($image.attr('width') || '', 10);
+  const height = parseInt($image.attr('height') || '', 10);
+  if ((width >= 0 && width <= 1) || (height >= 0 && height <= 1)) {
+    return true;
+  }
+
+  const style = ($image.attr('style') || '').replace(/\s+/g, '').toLowerCase();
+  if (/display:none|visibility:hidden|(width|height):[01]px/.test(style)) {
+    return true;
+  }
+
+  const src = resolveUrl($image.attr('src') || $image.attr('srcset') || '', pageUrl);
+  const host = src ? parseUrl(src)?.host || '' : '';
+  return TRACKER_HOSTS.test(host);
+}
+
+// Public http(s) hosts only: the server must not be pointed at itself or a private network
+export function isFetchableUrl(url: string): boolean {
+  const parsed = parseUrl(url);
+  if (!parsed || (parsed.scheme !== 'http' && parsed.scheme !== 'https')) {
+    return false;
+  }
+
+  const host = parsed.host.replace(/^\[|\]$/g, '');
+  return !(
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    host.endsWith('.local') ||
+    host.endsWith('.internal') ||
+    !host.includes('.') ||
+    /^(127|10|0)\./.test(host) ||
+    /^192\.168\./.test(host) ||
+    /^169\.254\./.test(host) ||
+    /^172\.(1[6-9]|2\d|3[01])\./.test(host)
+  );
+}
+
+// Whether the deployment is allowed to fetch `url` for reader view
+export function canReadUrl(url: string): boolean {
+  const parsed = parseUrl(url);
+  return !!parsed && isFetchableUrl(url) &&
+    READER_ORIGINS.includes(`${parsed.scheme}://${parsed.host}${parsed.port ? `:${parsed.port}` : ''}/`);
+}
+
+function resolveUrl(href: string, base: string): string | undefined {
+  const trimmed = href.trim().split(/\s+/)[0];
+  if (!trimmed || trimmed.startsWith('#') || /^(javascript|data|mailto|tel):/i.test(trimmed)) {
+    return undefined;
+  }
+  if (/^https?:\/\//i.test(trimmed)) {
+    return trimmed;
+  }
+
+  const parsed = parseUrl(base);
+  if (!parsed) {
+    return undefined;
+  }
+
+  const origin = `${parsed.scheme}://${parsed.host}${parsed.port ? `:${parsed.port}` : ''}`;
+  if (trimmed.startsWith('//')) {
+    return `${parsed.scheme}:${trimmed}`;
+  }
+  if (trimmed.startsWith('/')) {
+    return `${origin}${trimmed}`;
+  }
+
+  const directory = parsed.path.substring(0, parsed.path.lastIndexOf('/') + 1) || '/';
+  return `${origin}${directory}${trimmed}`;
+}
+
+function metaContent($: cheerio.CheerioAPI, name: string): string | undefined {
+  const content = $(`meta[property="${name}"], meta[name="${name}"]`).first().attr('content');
+  return content && content.trim() ? content.trim() : undefined;
+}
+
+function normalizeDate(value: string | undefined): string | undefined {
+  const parsed = value ? Date.parse(value) : NaN;
+  return isNaN(parsed) ? undefined : new Date(parsed).toISOString();
+}
+
+function truncate(text: string, length: number): string {
+  return text.length <= length ? text : `${text.substring(0, length).replace(/\s+\S*$/, '')}…`;
+}
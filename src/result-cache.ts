@@ -0,0 +1,155 @@
+/**
+ * Result Cache for Mirror Search
+ * In-process LRU cache with TTL, keyed by the anonymized query and search options
+ */
+
+export interface ResultCacheConfig {
+  enabled: boolean;
+  maxEntries: number;
+  ttlMs: number;
+  // Optional JSON file the cache is mirrored to (requires fs permission in bls.toml)
+  persistPath?: string;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+// Lazy load fs so the module still works where the runtime has no filesystem
+let fsModule: any = null;
+
+async function loadFS() {
+  if (!fsModule) {
+    try {
+      fsModule = await import('fs');
+    } catch (error) {
+      return null;
+    }
+  }
+  return fsModule;
+}
+
+// Build a cache key from the final (already anonymized) query and the options
+// that change what engines return. Never pass the original query here.
+export function cacheKey(anonymizedQuery: string, options: object): string {
+  const normalizedOptions = Object.keys(options)
+    .sort()
+    .filter(key => (options as Record<string, unknown>)[key] !== undefined)
+    .map(key => `${key}=${JSON.stringify((options as Record<string, unknown>)[key])}`)
+    .join('&');
+
+  return `${anonymizedQuery.trim().toLowerCase().replace(/\s+/g, ' ')}|${normalizedOptions}`;
+}
+
+export class ResultCache<T> {
+  // Map iteration order doubles as LRU order: oldest first
+  private entries: Map<string, CacheEntry<T>> = new Map();
+  private loaded: boolean = false;
+  private hits: number = 0;
+  private misses: number = 0;
+
+  constructor(private config: ResultCacheConfig) {}
+
+  async get(key: string): Promise<T | undefined> {
+    if (!this.config.enabled) {
+      return undefined;
+    }
+
+    await this.load();
+
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.entries.delete(key);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    // Refresh recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    await this.load();
+
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.config.ttlMs });
+
+    while (this.entries.size > this.config.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+
+    await this.persist();
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  stats(): { enabled: boolean; size: number; hits: number; misses: number; persistent: boolean } {
+    return {
+      enabled: this.config.enabled,
+      size: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      persistent: !!this.config.persistPath
+    };
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+
+    if (!this.config.persistPath) {
+      return;
+    }
+
+    const fs = await loadFS();
+    if (!fs) {
+      return;
+    }
+
+    try {
+      const raw = await fs.promises.readFile(this.config.persistPath, 'utf8');
+      const stored: Array<[string, CacheEntry<T>]> = JSON.parse(raw);
+      const now = Date.now();
+
+      for (const [key, entry] of stored) {
+        if (entry && entry.expiresAt > now) {
+          this.entries.set(key, entry);
+        }
+      }
+    } catch (error) {
+      // Missing or corrupt cache file - start empty
+    }
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.config.persistPath) {
+      return;
+    }
+
+    const fs = await loadFS();
+    if (!fs) {
+      return;
+    }
+
+    try {
+      await fs.promises.writeFile(this.config.persistPath, JSON.stringify(Array.from(this.entries.entries())));
+    } catch (error) {
+      // Persistence is best effort; the in-memory cache keeps working
+    }
+  }
+}
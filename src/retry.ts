@@ -0,0 +1,58 @@
+/**
+ * Retry Policy for Mirror Search
+ * Exponential backoff with jitter for transient upstream failures, bounded by a deadline
+ */
+
+import { Deadline, delay } from './deadline';
+import { isRetryableError } from './engine-errors';
+
+export interface RetryPolicy {
+  // Total attempts including the first one
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Fraction of each delay that is randomized (0 = none, 1 = full jitter)
+  jitter: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 200,
+  maxDelayMs: 2000,
+  jitter: 0.5
+};
+
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+  const jitter = Math.min(1, Math.max(0, policy.jitter));
+  return Math.round(exponential * (1 - jitter * Math.random()));
+}
+
+// Run `operation` until it succeeds, fails with a non-retryable error, runs out of
+// attempts, or the next backoff would not fit in what is left of the deadline
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  deadline: Deadline
+): Promise<T> {
+  let attempt = 0;
+
+  for (;;) {
+    attempt++;
+
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (!isRetryableError(error) || attempt >= policy.maxAttempts) {
+        throw error;
+      }
+
+      const wait = backoffDelay(attempt, policy);
+      if (wait >= deadline.remaining()) {
+        throw error;
+      }
+
+      await delay(wait);
+    }
+  }
+}
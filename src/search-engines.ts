@@ -4,19 +4,67 @@
  */
 
 import { wasmLLM, AnonymizationResult } from './wasm-llm';
+import { SearchResult, InstantAnswer, FeaturedSnippet, KnowledgePanel, RelatedQuestion, QueryRefinements, rankResults } from './search-result';
+import { EngineRegistry, SearchProvider, ProviderResponse, ProviderHealth } from './engine-registry';
+import { BrightDataProxyProvider, DuckDuckGoProvider } from './search-providers';
+import { GoogleHtmlProvider, BingHtmlProvider, DuckDuckGoHtmlProvider, YahooHtmlProvider } from './html-engines';
+import { FixtureProvider } from './fixture-engine';
+import { reciprocalRankFusion, RankedList } from './rank-fusion';
+import { dedupeResults } from './url-canonical';
+import { Deadline, isTimeoutError } from './deadline';
+import { SearchUnavailableError, EngineBlockedError, EngineNoResultsError, isEngineFailure } from './engine-errors';
+import { CircuitBreaker, CircuitBreakerConfig } from './circuit-breaker';
+import { withRetry, RetryPolicy, DEFAULT_RETRY_POLICY } from './retry';
+import { ResultCache, ResultCacheConfig, cacheKey } from './result-cache';
+import { SingleFlight } from './single-flight';
+import { QueryOperator, parseQuery, buildQuery, unsupportedOperators, filterByOperators } from './query-operators';
+import { SearchLocale, DEFAULT_LOCALE, resolveLocale } from './locale';
+import { SafeSearchLevel, TimeRange, SearchFilters, DEFAULT_FILTERS, applyFilters } from './search-filters';
+import { PageRequest, ResolvedPage, PaginationInfo, resolvePage, encodeCursor } from './pagination';
+import { ParserHealthMonitor, ParserHealthConfig, CANARY_FIXTURE, checkCanary } from './parser-health';
+import { SanitizationSummary, sanitizeUrl, sanitizeResults, sanitizeLink, summarizeSanitization } from './url-sanitizer';
+import { DomainRule, DomainRuleSummary, applyDomainRules, domainAction, blockInstantAnswer, blockKnowledgePanel } from './domain-rules';
+import { SuggestionIndex, SuggestConfig, Suggestion, normalizeSuggestion, fetchUpstreamSuggestions } from './query-suggest';
+
+// The result model lives in its own module; re-exported for existing importers
+export type { SearchResult, ResultType, InstantAnswer, FeaturedSnippet, KnowledgePanel, RelatedQuestion } from './search-result';
+export type { Suggestion, SuggestionSource } from './query-suggest';
+export type { DomainRule, DomainAction } from './domain-rules';
+
+export type SearchMode = 'fallback' | 'parallel';
+
+// /health answers within this even when an engine does not
+const HEALTH_CHECK_TIMEOUT = 3000;
+
+export interface SearchOptions extends PageRequest {
+  mode?: SearchMode;
+  // ISO 639-1 language and ISO 3166-1 region; default to SearchEngineConfig.locale
+  language?: string;
+  region?: string;
+  // Default to SearchEngineConfig.safeSearch / timeRange
+  safeSearch?: SafeSearchLevel;
+  timeRange?: TimeRange;
+  // Provider names to query for this search only, e.g. ['fixture']
+  engines?: string[];
+  // The caller's block/lower/raise/pin list; never stored on the server
+  domainRules?: DomainRule[];
+}
 
-export interface SearchResult {
-  title: string;
-  url: string;
-  snippet: string;
-  source: string;
+export interface SearchErrorInfo {
+  // Provider name -> error message for every engine that failed
+  engines: Record<string, string>;
+  // Set when the overall request budget ran out; results are partial
+  timedOut?: boolean;
+  // Provider name -> number of attempts made, including retries
+  attempts?: Record<string, number>;
 }
 
 export interface SearchResponse {
   results: SearchResult[];
   totalResults: number;
   totalTime: number;
-  engine: string;
+  // Provider names that contributed results
+  engine: string[];
   status: {
     anonymized: boolean;
     protected: boolean;
@@ -30,81 +78,267 @@ export interface SearchResponse {
     anonymizedQuery: string;
     confidence: number;
   };
-  errorInfo?: {
-    brightDataError?: string;
-    duckduckgoError?: string;
-  };
+  errorInfo?: SearchErrorInfo;
+  // True when results were served from the server-side result cache
+  cached?: boolean;
+  // Operators extracted from the query and preserved through anonymization
+  operators?: QueryOperator[];
+  locale: SearchLocale;
+  filters: SearchFilters;
+  pagination: PaginationInfo;
+  // Abstract, answer, infobox and definition for the query; first page only
+  instantAnswer?: InstantAnswer;
+  // Answer box and entity card from the engine's result page; first page only
+  featuredSnippet?: FeaturedSnippet;
+  knowledgePanel?: KnowledgePanel;
+  // Engine suggestions for a follow-up search. They answer the anonymized query, and
+  // picking one starts a new search that is anonymized again.
+  relatedSearches?: string[];
+  peopleAlsoAsk?: RelatedQuestion[];
+  spellingSuggestion?: string;
+  // What the request's domain rules did to this page; only present when rules were sent
+  domainRules?: DomainRuleSummary;
+  // Tracking parameters, redirect wrappers and AMP links removed from this page's result URLs
+  sanitization: SanitizationSummary;
+}
+
+// Cards and suggestions shown alongside the organic results; they never take a rank
+interface AnswerCards {
+  instantAnswer?: InstantAnswer;
+  featuredSnippet?: FeaturedSnippet;
+  knowledgePanel?: KnowledgePanel;
+  refinements?: QueryRefinements;
+}
+
+interface EngineOutcome extends AnswerCards {
+  results: SearchResult[];
+  engines: string[];
+  hasMore: boolean;
+  // Provider name -> cursor for that provider's next page
+  engineCursors: Record<string, string>;
+}
+
+// Everything the engines need to know about one upstream search
+interface EngineRequest {
+  // Final query with operators, used for cache keys
+  query: string;
+  // Anonymized free text and the operators extracted before anonymization
+  text: string;
+  operators: QueryOperator[];
+  mode: SearchMode;
+  locale: SearchLocale;
+  filters: SearchFilters;
+  // Per-request provider selection; falls back to config.engines
+  engines?: string[];
+  page: ResolvedPage;
+  // Block rules only: in fallback mode a provider whose results are all blocked does not end the chain
+  blockRules: DomainRule[];
 }
 
 export interface SearchEngineConfig {
+  // Time budget for a single engine call, in milliseconds
   timeout: number;
+  // Cap on the whole search request, in milliseconds
+  requestTimeout: number;
   maxResults: number;
   userAgent: string;
   enableAnonymization: boolean;
+  // Language and region used when a search does not ask for one
+  locale: SearchLocale;
+  // Defaults for searches that do not ask for their own filters
+  safeSearch: SafeSearchLevel;
+  timeRange: TimeRange;
+  // 'fallback' queries providers one at a time, 'parallel' fans out and fuses the rankings
+  mode: SearchMode;
+  // Provider names in query order; registered providers not listed are skipped
+  engines?: string[];
+  circuitBreaker: CircuitBreakerConfig;
+  // Default retry policy, with optional per-provider overrides
+  retry: RetryPolicy;
+  engineRetry?: Record<string, Partial<RetryPolicy>>;
+  cache: ResultCacheConfig;
+  // Layout-break detection for the HTML parsers, including the canary schedule
+  parserHealth: ParserHealthConfig;
+  // Autocomplete: local index of popular anonymized queries and upstream suggest APIs
+  suggest: SuggestConfig;
+}
+
+export interface SuggestResponse {
+  suggestions: Suggestion[];
+  // What the upstream suggest APIs were sent
+  anonymizedPrefix: string;
+  totalTime: number;
 }
 
 export class SearchEngines {
   private config: SearchEngineConfig;
-  private readonly SEARCH_API_URL = 'https://api.duckduckgo.com/';
-  private readonly BRIGHT_DATA_PROXY_URL = 'https://mirror-search-proxy.onrender.com/api/brightdataget'; // UPDATED for GET
-  private readonly BRIGHT_DATA_API_URL = 'https://api.brightdata.com/request';
+  private registry: EngineRegistry;
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  private cache: ResultCache<EngineOutcome>;
+  private parserHealth: ParserHealthMonitor;
+  private suggestions: SuggestionIndex;
+  private canariesRunning: Set<string> = new Set();
+  private inFlight: SingleFlight<{ outcome?: EngineOutcome; errorInfo: SearchErrorInfo }> = new SingleFlight();
 
   constructor(config: Partial<SearchEngineConfig> = {}) {
     this.config = {
       timeout: 10000,
+      requestTimeout: 15000,
       maxResults: 10,
       userAgent: 'Mirror Search Bot 2.1 (Privacy-First)',
       enableAnonymization: true,
-      ...config
+      locale: DEFAULT_LOCALE,
+      safeSearch: DEFAULT_FILTERS.safeSearch,
+      timeRange: DEFAULT_FILTERS.timeRange,
+      mode: 'fallback',
+      ...config,
+      circuitBreaker: {
+        failureThreshold: 3,
+        cooldownMs: 30000,
+        ...config.circuitBreaker
+      },
+      retry: {
+        ...DEFAULT_RETRY_POLICY,
+        ...config.retry
+      },
+      cache: {
+        enabled: true,
+        maxEntries: 200,
+        ttlMs: 10 * 60 * 1000, // 10 minutes
+        ...config.cache
+      },
+      parserHealth: {
+        windowSize: 20,
+        emptyPageThreshold: 3,
+        missingFieldThreshold: 0.5,
+        canaryIntervalMs: 30 * 60 * 1000, // 30 minutes
+        ...config.parserHealth
+      },
+      suggest: {
+        upstream: ['duckduckgo'],
+        maxSuggestions: 8,
+        minCount: 2,
+        maxEntries: 1000,
+        upstreamTimeout: 1500,
+        ...config.suggest
+      }
     };
+
+    this.cache = new ResultCache(this.config.cache);
+    this.parserHealth = new ParserHealthMonitor(this.config.parserHealth);
+    this.suggestions = new SuggestionIndex(this.config.suggest);
+
+    // Default provider chain: Bright Data proxy first, DuckDuckGo as fallback,
+    // then the direct HTML engines as a last resort
+    this.registry = new EngineRegistry();
+    this.registry.register(new BrightDataProxyProvider({ userAgent: this.config.userAgent }));
+    this.registry.register(new DuckDuckGoProvider({ userAgent: this.config.userAgent }));
+    this.registry.register(new GoogleHtmlProvider(this.parserHealth));
+    this.registry.register(new BingHtmlProvider(this.parserHealth));
+    this.registry.register(new DuckDuckGoHtmlProvider(this.parserHealth));
+    this.registry.register(new YahooHtmlProvider(this.parserHealth));
+    // Offline corpus for development and tests, only used when selected by name
+    this.registry.register(new FixtureProvider());
+
+    if (this.config.engines) {
+      this.registry.reorder(this.config.engines);
+    }
   }
 
-  async search(query: string, useAnonymization: boolean = true): Promise<SearchResponse> {
+  registerEngine(provider: SearchProvider, position?: number): void {
+    this.registry.register(provider, position);
+  }
+
+  unregisterEngine(name: string): boolean {
+    return this.registry.unregister(name);
+  }
+
+  listEngines(): SearchProvider[] {
+    return this.activeProviders();
+  }
+
+  async search(query: string, useAnonymization: boolean = true, options: SearchOptions = {}): Promise<SearchResponse> {
     const startTime = Date.now();
+    this.startDueCanaries();
     
     try {
-      let finalQuery = query;
+      const unknownEngines = (options.engines || []).filter(name => !this.registry.has(name));
+      if (unknownEngines.length > 0) {
+        throw new Error(`Unknown engine: ${unknownEngines.join(', ')}`);
+      }
+
+      // Pull operators out first so only the free text goes through anonymization
+      const parsedQuery = parseQuery(query);
+      let finalText = parsedQuery.text;
       let anonymizationResult: AnonymizationResult | undefined;
+      const locale = resolveLocale(options.language, options.region, this.config.locale);
+      const filters: SearchFilters = {
+        safeSearch: options.safeSearch || this.config.safeSearch,
+        timeRange: options.timeRange || this.config.timeRange
+      };
 
       // Apply WASM LLM anonymization if enabled
-      if (useAnonymization && this.config.enableAnonymization) {
+      if (useAnonymization && this.config.enableAnonymization && parsedQuery.text) {
         try {
-          anonymizationResult = await wasmLLM.anonymizeQuery(query);
-          finalQuery = anonymizationResult.anonymizedQuery;
+          anonymizationResult = await wasmLLM.anonymizeQuery(parsedQuery.text, locale.language);
+          finalText = anonymizationResult.anonymizedQuery;
           
           // Debug: Check if anonymized query is empty or too short
-          if (!finalQuery || finalQuery.trim().length < 2) {
-            finalQuery = query; // Fallback to original
+          if (!finalText || finalText.trim().length < 2) {
+            finalText = parsedQuery.text; // Fallback to original
             anonymizationResult = undefined;
           }
         } catch (error) {
           // Silent fallback to original query
-          finalQuery = query;
+          finalText = parsedQuery.text;
         }
       }
 
-      // Try to use Bright Data proxy as primary search engine
-      let results: SearchResult[];
-      let engine: string;
-      let errorInfo: {brightDataError?: string; duckduckgoError?: string} = {};
-      
-      try {
-        results = await this.searchBrightDataProxy(finalQuery);
-        engine = 'Google via Bright Data Proxy';
-      } catch (brightDataError) {
-        errorInfo.brightDataError = brightDataError instanceof Error ? brightDataError.message : String(brightDataError);
-        
-        // If Bright Data proxy fails, fallback to DuckDuckGo
-        try {
-          results = await this.searchDuckDuckGo(finalQuery);
-          engine = 'DuckDuckGo Privacy Search';
-        } catch (duckduckgoError) {
-          errorInfo.duckduckgoError = duckduckgoError instanceof Error ? duckduckgoError.message : String(duckduckgoError);
-          
-          // If both fail, use mock results
-          return await this.getMockResults(query, Date.now() - startTime, useAnonymization, errorInfo);
-        }
+      // Put the operators back so debug output shows what engines actually receive
+      const finalQuery = buildQuery(finalText, parsedQuery.operators);
+      if (anonymizationResult) {
+        anonymizationResult = {
+          ...anonymizationResult,
+          originalQuery: query,
+          anonymizedQuery: finalQuery
+        };
+      }
+
+      const domainRules = options.domainRules || [];
+      const request: EngineRequest = {
+        query: finalQuery,
+        text: finalText,
+        operators: parsedQuery.operators,
+        mode: options.mode || this.config.mode,
+        locale,
+        filters,
+        engines: options.engines && options.engines.length > 0 ? options.engines : undefined,
+        page: resolvePage(options, this.config.maxResults),
+        blockRules: domainRules.filter(rule => rule.action === 'block')
+      };
+      const { outcome, errorInfo, cached } = await this.fetchResults(request, !!anonymizationResult);
+
+      // Never make results up: report which engines failed and why
+      if (!outcome) {
+        throw new SearchUnavailableError(errorInfo);
+      }
+
+      const { engines, refinements } = outcome;
+
+      // Domain rules run on the merged page, after the cache, so cached outcomes stay rule-free
+      const ruled = applyDomainRules(outcome.results, domainRules);
+      const results = domainRules.length > 0 ? rankResults(ruled.results, request.page.offset) : outcome.results;
+      const featuredSnippet = outcome.featuredSnippet && domainAction(outcome.featuredSnippet.source.url, domainRules) === 'block'
+        ? undefined
+        : outcome.featuredSnippet;
+      const instantAnswer = blockInstantAnswer(outcome.instantAnswer, domainRules);
+      const knowledgePanel = blockKnowledgePanel(outcome.knowledgePanel, domainRules);
+
+      // Feed autocomplete with anonymized queries only, once per search rather than per page
+      if (anonymizationResult && request.page.offset === 0 && results.length > 0) {
+        this.suggestions.record(finalText);
       }
+      const nextOffset = request.page.offset + this.config.maxResults;
       
       const totalTime = Date.now() - startTime;
 
@@ -112,7 +346,7 @@ export class SearchEngines {
         results,
         totalResults: results.length,
         totalTime,
-        engine,
+        engine: engines,
         status: {
           anonymized: !!anonymizationResult,
           protected: true,
@@ -126,10 +360,31 @@ export class SearchEngines {
           anonymizedQuery: anonymizationResult.anonymizedQuery,
           confidence: anonymizationResult.confidence
         } : undefined,
-        errorInfo: Object.keys(errorInfo).length > 0 ? errorInfo : undefined
+        errorInfo: this.hasErrorInfo(errorInfo) ? errorInfo : undefined,
+        cached,
+        operators: parsedQuery.operators.length > 0 ? parsedQuery.operators : undefined,
+        locale,
+        filters,
+        pagination: {
+          page: request.page.page,
+          pageSize: this.config.maxResults,
+          offset: request.page.offset,
+          hasMore: outcome.hasMore,
+          nextCursor: outcome.hasMore ? encodeCursor({ offset: nextOffset, engines: outcome.engineCursors }) : undefined
+        },
+        instantAnswer,
+        featuredSnippet,
+        knowledgePanel,
+        ...refinements,
+        domainRules: domainRules.length > 0 ? ruled.summary : undefined,
+        sanitization: summarizeSanitization(results)
       };
 
     } catch (error) {
+      if (error instanceof SearchUnavailableError) {
+        throw error;
+      }
+
       // Enhanced error reporting for WASM environment debugging
       const errorMessage = error instanceof Error ? error.message : String(error);
       const errorName = error instanceof Error ? error.name : 'Unknown';
@@ -137,501 +392,404 @@ export class SearchEngines {
     }
   }
 
-  private async searchBrightDataProxy(query: string): Promise<SearchResult[]> {
-    try {
-      const cleanQuery = query.trim();
-      
-      try {
-        // Manually construct query string as URLSearchParams is not available
-        // Ensure cleanQuery is properly URI encoded.
-        const encodedQuery = encodeURIComponent(cleanQuery);
-        const fullProxyUrl = `${this.BRIGHT_DATA_PROXY_URL}?query=${encodedQuery}`;
-        
-        // REMOVE OR COMMENT OUT THE LINE BELOW as it might interfere with JSON response to UI
-        // console.log(`[search-engines.ts] Sending to Bright Data proxy (GET, manual URL): URL=${fullProxyUrl}`);
-
-        const response = await fetch(fullProxyUrl, {
-          method: 'GET', // Changed to GET
-          headers: {
-            // Content-Type and other body-related headers are not needed for GET
-            'User-Agent': this.config.userAgent,
-            'Accept': 'application/json',
-            'X-Request-Debug': 'true' // This can be kept or removed for GET
-          }
-          // body is not sent with GET requests
-        });
-        
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`Proxy HTTP error: ${response.status} - ${errorText.substring(0, 200)}`);
-        }
-        
-        const responseText = await response.text();
-        let data;
-        try {
-          data = JSON.parse(responseText);
-        } catch (jsonError) {
-          try {
-            const jsonStartIndex = responseText.indexOf('{');
-            const jsonEndIndex = responseText.lastIndexOf('}') + 1;
-            if (jsonStartIndex >= 0 && jsonEndIndex > jsonStartIndex) {
-              const jsonPart = responseText.substring(jsonStartIndex, jsonEndIndex);
-              data = JSON.parse(jsonPart);
-            } else {
-              throw new Error(`No valid JSON found in response (query sent: '${cleanQuery}')`);
-            }
-          } catch (extractError) {
-            throw new Error(`JSON parse error (query sent: '${cleanQuery}'): ${jsonError.message}. Response starts with: ${responseText.substring(0, 100)}`);
-          }
-        }
-        
-        if (!data.success || !data.results || !Array.isArray(data.results)) {
-          throw new Error(`Invalid response format from proxy (query sent: '${cleanQuery}'). Proxy said: ${JSON.stringify(data).substring(0, 250)}`);
-        }
-        
-        if (data.results.length === 0) {
-          throw new Error(`No search results returned from proxy (query sent: '${cleanQuery}')`);
-        }
-        
-        return data.results.map((result: any) => ({
-          title: result.title || `Result for ${cleanQuery}`,
-          url: result.url || `https://www.google.com/search?q=${encodeURIComponent(cleanQuery)}`,
-          snippet: result.snippet || 'No description available',
-          source: result.source || 'Bright Data SERP'
-        }));
-        
-      } catch (fetchError) {
-        throw fetchError;
-      }
-      
-    } catch (error) {
-      const errorMessage = error instanceof Error ? 
-        `Bright Data proxy error: ${error.message}` : 
-        `Unknown Bright Data proxy error: ${String(error)}`;
-      
-      // Health check without AbortController
-      try {
-        const healthResponse = await fetch(`${this.BRIGHT_DATA_PROXY_URL}/health`, { 
-          method: 'GET'
-        });
-        
-        if (!healthResponse.ok) {
-          throw new Error(`Proxy health check failed with status ${healthResponse.status}`);
-        }
-      } catch (healthError) {
-        throw new Error(`${errorMessage} | Health check: ${healthError instanceof Error ? healthError.message : String(healthError)}`);
+  // Completions for a partly typed query. The raw prefix is only matched against the
+  // local index; upstream suggest APIs get it after the anonymization rules have run.
+  async suggest(prefix: string, options: { language?: string; region?: string } = {}): Promise<SuggestResponse> {
+    const startTime = Date.now();
+    const { maxSuggestions, upstream, upstreamTimeout } = this.config.suggest;
+    const locale = resolveLocale(options.language, options.region, this.config.locale);
+
+    // Rules only: the model is too slow per keystroke. Keep a trailing space so
+    // "how to " still completes the next word.
+    const anonymized = (await wasmLLM.anonymizeWithRules(prefix, locale.language)).anonymizedQuery;
+    const anonymizedPrefix = /\s$/.test(prefix) && anonymized ? `${anonymized} ` : anonymized;
+
+    const local = [
+      ...this.suggestions.lookup(prefix, maxSuggestions),
+      ...this.suggestions.lookup(anonymizedPrefix, maxSuggestions)
+    ];
+
+    // A failing or slow suggest API never fails the request
+    const remote = anonymizedPrefix.trim().length >= 2
+      ? await Promise.all(upstream.map(source =>
+        fetchUpstreamSuggestions(source, anonymizedPrefix, locale, upstreamTimeout)
+          .then(texts => texts.map((text): Suggestion => ({ text, source })))
+          .catch(() => [] as Suggestion[])))
+      : [];
+
+    const seen = new Set<string>([normalizeSuggestion(prefix)]);
+    const suggestions: Suggestion[] = [];
+    for (const suggestion of [...local.map((text): Suggestion => ({ text, source: 'local' })), ...remote.flat()]) {
+      const key = normalizeSuggestion(suggestion.text);
+      if (!seen.has(key) && suggestions.length < maxSuggestions) {
+        seen.add(key);
+        suggestions.push(suggestion);
       }
-      
-      throw new Error(errorMessage);
     }
+
+    return {
+      suggestions,
+      anonymizedPrefix,
+      totalTime: Date.now() - startTime
+    };
   }
 
-  private async searchBrightData(query: string): Promise<SearchResult[]> {
-    try {
-      const cleanQuery = query.trim();
-      
-      // Removed hard-coded API token - this method is not used in production
-      // Token should be set via environment variables on the server
-      const apiToken = '***REMOVED***'; // Token removed for security
-      const zone = 'serp_api1';
-      
-      // Test simple fetch first
-      const response = await fetch(this.BRIGHT_DATA_API_URL, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiToken}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          zone: zone,
-          url: `https://www.google.com/search?q=${encodeURIComponent(cleanQuery)}&num=10&hl=en&gl=us`,
-          format: 'raw'
-        })
-      });
-      
-      // Detailed response analysis
-      const responseStatus = response.status;
-      const responseStatusText = response.statusText;
-      const responseHeaders = {};
-      
-      // Try to get headers (WASM might not support all)
-      try {
-        response.headers.forEach((value, key) => {
-          responseHeaders[key] = value;
-        });
-      } catch (headerError) {
-        // Headers might not be accessible in WASM
-      }
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        return [{
-          title: `${cleanQuery} - HTTP ${responseStatus} Error`,
-          url: `https://www.google.com/search?q=${encodeURIComponent(cleanQuery)}`,
-          snippet: `HTTP ${responseStatus} ${responseStatusText}. Response: ${errorText.substring(0, 200)}. Headers: ${JSON.stringify(responseHeaders)}`,
-          source: 'Bright Data HTTP Error'
-        }];
-      }
-      
-      const responseText = await response.text();
-      
-      // Check for authentication errors in body
-      if (responseText.includes('User authentication is required') || 
-          responseText.includes('authentication') ||
-          responseText.includes('unauthorized')) {
-        return [{
-          title: `${cleanQuery} - Auth Error (Status: ${responseStatus})`,
-          url: `https://www.google.com/search?q=${encodeURIComponent(cleanQuery)}`,
-          snippet: `Auth failed with status ${responseStatus}. Body sample: ${responseText.substring(0, 300)}`,
-          source: 'Bright Data Auth Debug'
-        }];
-      }
-      
-      // Always try to parse Google HTML - bypass the check for debugging
-      const results = this.parseGoogleHTML(responseText, cleanQuery);
-      if (results.length > 0) {
-        return results;
+  // Serve from the result cache or query the engines. Only queries that went through
+  // anonymization are cached, so the cache never holds an original query.
+  private async fetchResults(request: EngineRequest, cacheable: boolean): Promise<{
+    outcome?: EngineOutcome;
+    errorInfo: SearchErrorInfo;
+    cached: boolean;
+  }> {
+    const errorInfo: SearchErrorInfo = { engines: {} };
+    const key = cacheKey(request.query, {
+      mode: request.mode,
+      language: request.locale.language,
+      region: request.locale.region,
+      safeSearch: request.filters.safeSearch,
+      timeRange: request.filters.timeRange,
+      engines: this.activeProviders(request.engines).map(provider => provider.name),
+      maxResults: this.config.maxResults,
+      offset: request.page.offset,
+      engineCursors: request.page.engineCursors,
+      // Block rules can move the fallback chain on to another engine
+      blocked: request.blockRules.length > 0 ? request.blockRules.map(rule => rule.pattern).sort() : undefined
+    });
+
+    if (cacheable) {
+      const hit = await this.cache.get(key);
+      if (hit) {
+        return { outcome: hit, errorInfo, cached: true };
       }
-      
-      // If no results found, create basic results with HTML info
-      return [{
-        title: `${cleanQuery} - No Parse Results (HTML: ${responseText.length}chars)`,
-        url: `https://www.google.com/search?q=${encodeURIComponent(cleanQuery)}`,
-        snippet: `HTML received but parsing failed. Length: ${responseText.length} chars`,
-        source: 'Bright Data SERP Debug'
-      }];
-      
-    } catch (error) {
-      throw error;
     }
+
+    // Identical concurrent searches share one upstream call; each caller gets its own copies
+    const { value } = await this.inFlight.do(`${cacheable ? 'anon' : 'raw'}|${key}`, () =>
+      this.queryEngines(request, key, cacheable)
+    );
+
+    return {
+      outcome: value.outcome ? {
+        ...value.outcome,
+        results: [...value.outcome.results],
+        engines: [...value.outcome.engines],
+        engineCursors: { ...value.outcome.engineCursors }
+      } : undefined,
+      errorInfo: {
+        ...value.errorInfo,
+        engines: { ...value.errorInfo.engines },
+        attempts: value.errorInfo.attempts ? { ...value.errorInfo.attempts } : undefined
+      },
+      cached: false
+    };
   }
 
-  private parseGoogleHTML(html: string, query: string): SearchResult[] {
-    const results: SearchResult[] = [];
+  // One upstream round trip: query the engines, dedupe, and fill the cache
+  private async queryEngines(request: EngineRequest, key: string, cacheable: boolean): Promise<{
+    outcome?: EngineOutcome;
+    errorInfo: SearchErrorInfo;
+  }> {
+    const errorInfo: SearchErrorInfo = { engines: {} };
+    const deadline = new Deadline(this.config.requestTimeout);
+    const outcome = request.mode === 'parallel'
+      ? await this.searchParallel(request, deadline, errorInfo)
+      : await this.searchSequential(request, deadline, errorInfo);
+
+    if (!outcome) {
+      return { errorInfo };
+    }
 
-    try {
-      // Step 1: Find all h3 elements with LC20lb class and their titles
-      const titlePattern = /<h3[^>]*class="[^"]*LC20lb[^"]*"[^>]*>([^<]*)<\/h3>/g;
-      const titles: string[] = [];
-      let titleMatch;
-      
-      while ((titleMatch = titlePattern.exec(html)) !== null) {
-        titles.push(titleMatch[1].replace(/&amp;/g, '&').trim());
-      }
-      
-      // Step 2: Find all links with href that are likely search results
-      const linkPattern = /<a[^>]*href="([^"]*)"[^>]*>/g;
-      const links: string[] = [];
-      let linkMatch;
-      
-      while ((linkMatch = linkPattern.exec(html)) !== null) {
-        const url = linkMatch[1];
-        
-        // Only include external links, skip Google internal ones
-        if (url.startsWith('http') && 
-            !url.includes('google.com/url') && 
-            !url.includes('google.com/search') &&
-            !url.includes('webcache.googleusercontent.com') &&
-            !url.includes('accounts.google') &&
-            !url.includes('policies.google')) {
-          links.push(url);
-        }
-      }
-      
-      // Step 3: Match titles with links (take first N pairs)
-      const maxResults = Math.min(titles.length, links.length, this.config.maxResults);
-      
-      for (let i = 0; i < maxResults; i++) {
-        if (titles[i] && links[i]) {
-          results.push({
-            title: titles[i],
-            url: links[i],
-            snippet: `Search result for "${query}" from Google (Found T:${titles.length}/L:${links.length})`,
-            source: 'Bright Data SERP'
-          });
-        }
-      }
-      
-      // If no results, create debug result
-      if (results.length === 0) {
-        results.push({
-          title: `${query} - No Results (Debug: T:${titles.length}/L:${links.length})`,
-          url: `https://www.google.com/search?q=${encodeURIComponent(query)}`,
-          snippet: `Debug: Found ${titles.length} titles, ${links.length} links. HTML sample: ${html.substring(0, 300)}...`,
-          source: 'Bright Data SERP Debug'
-        });
-      }
-      
-      return results;
+    // Collapse entries several engines (or Google's own layout) returned twice,
+    // then number what is left by its position across pages
+    const deduped: EngineOutcome = {
+      ...outcome,
+      results: rankResults(dedupeResults(outcome.results), request.page.offset)
+    };
 
-    } catch (error) {
-      return [];
+    // Partial (timed out) result sets are not worth remembering
+    if (cacheable && !errorInfo.timedOut) {
+      await this.cache.set(key, deduped);
     }
-  }
 
-  private parseBrightDataResults(data: any): SearchResult[] {
-    const results: SearchResult[] = [];
+    return { outcome: deduped, errorInfo };
+  }
 
-    try {
-      // Parse organic search results
-      if (data.organic && Array.isArray(data.organic)) {
-        data.organic.slice(0, this.config.maxResults).forEach((result: any) => {
-          if (result.title && result.link) {
-            results.push({
-              title: result.title,
-              url: result.link,
-              snippet: result.snippet || result.description || 'No description available',
-              source: 'Bright Data SERP'
-            });
-          }
-        });
+  // Walk the provider chain in order until one of them returns results that survive
+  // operator emulation, filters and block rules. A provider with nothing left keeps its
+  // answer cards and lets the chain continue.
+  private async searchSequential(request: EngineRequest, deadline: Deadline, errorInfo: SearchErrorInfo): Promise<EngineOutcome | undefined> {
+    let cards: AnswerCards = {};
+    let firstAnswer: EngineOutcome | undefined;
+
+    for (const provider of this.activeProviders(request.engines)) {
+      if (deadline.expired) {
+        errorInfo.timedOut = true;
+        break;
       }
 
-      // Parse featured snippets if available
-      if (data.featured_snippet) {
-        const snippet = data.featured_snippet;
-        if (snippet.title && snippet.link) {
-          results.unshift({
-            title: snippet.title,
-            url: snippet.link,
-            snippet: snippet.snippet || snippet.description || 'Featured snippet',
-            source: 'Bright Data Featured'
-          });
-        }
+      const response = await this.queryProvider(provider, request, deadline, errorInfo);
+      if (!response) {
+        continue;
       }
 
-      // Parse knowledge panel if available
-      if (data.knowledge_panel && data.knowledge_panel.title) {
-        const kp = data.knowledge_panel;
-        results.unshift({
-          title: kp.title,
-          url: kp.website || kp.source_link || '#',
-          snippet: kp.description || kp.subtitle || 'Knowledge panel information',
-          source: 'Bright Data Knowledge'
-        });
+      cards = mergeCards(cards, response);
+      const outcome: EngineOutcome = {
+        results: response.results,
+        engines: [provider.name],
+        hasMore: !!response.hasMore,
+        engineCursors: response.nextCursor ? { [provider.name]: response.nextCursor } : {}
+      };
+      if (response.results.some(result => domainAction(result.url, request.blockRules) !== 'block')) {
+        return { ...outcome, ...cards };
       }
-
-      return results.slice(0, this.config.maxResults);
-
-    } catch (error) {
-      return [];
+      firstAnswer = firstAnswer || outcome;
     }
+
+    // Nothing usable anywhere: an empty answer is still better than "unavailable"
+    return this.cardsOnlyOutcome(cards) || (firstAnswer && { ...firstAnswer, ...cards });
   }
 
-  private async searchDuckDuckGo(query: string): Promise<SearchResult[]> {
-    try {
-      // Ensure query is valid
-      if (!query || query.trim().length < 2) {
-        throw new Error('Query too short');
-      }
+  // Query every healthy provider at once and fuse their rankings;
+  // providers with an open circuit are skipped inside queryProvider
+  private async searchParallel(request: EngineRequest, deadline: Deadline, errorInfo: SearchErrorInfo): Promise<EngineOutcome | undefined> {
+    const engineCursors: Record<string, string> = {};
+    let hasMore = false;
 
-      const cleanQuery = query.trim();
-      const url = `${this.SEARCH_API_URL}?q=${encodeURIComponent(cleanQuery)}&format=json&no_html=1&skip_disambig=1`;
+    // Filled by provider position so the first engine in the chain wins
+    const cardsByProvider: AnswerCards[] = [];
 
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'User-Agent': this.config.userAgent,
-          'Accept': 'application/json',
-          'Accept-Language': 'en-US,en;q=0.9',
-        }
-      });
-
-      if (!response.ok) {
-        throw new Error(`DuckDuckGo API error: ${response.status} ${response.statusText}`);
+    const settled = await Promise.all(this.activeProviders(request.engines).map(async (provider, index) => {
+      const response = await this.queryProvider(provider, request, deadline, errorInfo);
+      if (!response) {
+        return undefined;
       }
 
-      const data = await response.json();
-      
-      const results = this.parseDuckDuckGoResults(data);
-      
-      // If no results from DuckDuckGo, throw error to trigger fallback
-      if (results.length === 0) {
-        throw new Error('No results from DuckDuckGo API');
+      cardsByProvider[index] = response;
+      hasMore = hasMore || !!response.hasMore;
+      if (response.nextCursor) {
+        engineCursors[provider.name] = response.nextCursor;
       }
-      
-      return results;
+      return { engine: provider.name, results: response.results } as RankedList;
+    }));
 
-    } catch (error) {
-      throw error;
+    const cards = cardsByProvider.filter(Boolean).reduce(mergeCards, {});
+    const lists = settled.filter((list): list is RankedList => !!list && list.results.length > 0);
+    if (lists.length === 0) {
+      return this.cardsOnlyOutcome(cards);
+    }
+
+    return {
+      results: reciprocalRankFusion(lists).slice(0, this.config.maxResults),
+      engines: lists.map(list => list.engine),
+      hasMore,
+      engineCursors,
+      ...cards
+    };
+  }
+
+  // No engine had web results, but answer cards are still worth showing
+  private cardsOnlyOutcome(cards: AnswerCards): EngineOutcome | undefined {
+    if (!hasCards(cards)) {
+      return undefined;
     }
+
+    const engines = [cards.instantAnswer, cards.featuredSnippet, cards.knowledgePanel]
+      .map(card => card?.engine)
+      .filter((engine): engine is string => !!engine);
+
+    return {
+      results: [],
+      engines: Array.from(new Set(engines)),
+      hasMore: false,
+      engineCursors: {},
+      ...cards
+    };
   }
 
-  private parseDuckDuckGoResults(data: any): SearchResult[] {
-    const results: SearchResult[] = [];
+  // Run one provider within its time budget; failures are recorded in errorInfo
+  private async queryProvider(provider: SearchProvider, request: EngineRequest, deadline: Deadline, errorInfo: SearchErrorInfo): Promise<ProviderResponse | undefined> {
+    const breaker = this.breakerFor(provider.name);
 
-    try {
-      // Parse Abstract (main result)
-      if (data.Abstract && data.AbstractText && data.AbstractURL) {
-        results.push({
-          title: data.Heading || 'Definition',
-          url: data.AbstractURL,
-          snippet: data.AbstractText,
-          source: 'DuckDuckGo Instant'
-        });
-      }
+    if (!breaker.canRequest()) {
+      const { nextProbeAt } = breaker.snapshot();
+      const retryIn = nextProbeAt ? Math.max(0, nextProbeAt - Date.now()) : 0;
+      errorInfo.engines[provider.name] = `Circuit open - skipped (next probe in ${retryIn}ms)`;
+      return undefined;
+    }
 
-      // Parse Definition
-      if (data.Definition && data.DefinitionURL) {
-        results.push({
-          title: data.Definition,
-          url: data.DefinitionURL,
-          snippet: data.Definition,
-          source: 'DuckDuckGo Definition'
-        });
-      }
+    // The engine budget covers every attempt, and never outlives the request deadline
+    const engineDeadline = new Deadline(Math.min(this.config.timeout, deadline.remaining()));
+    let attempts = 0;
 
-      // Parse Answer
-      if (data.Answer && data.AnswerType) {
-        results.push({
-          title: `${data.AnswerType} Answer`,
-          url: data.AbstractURL || '#',
-          snippet: data.Answer,
-          source: 'DuckDuckGo Answer'
-        });
-      }
+    // Native operators and filters go to the engine; the rest are emulated on the results
+    const engineQuery = buildQuery(request.text, request.operators, provider.capabilities.operators);
+    const emulated = unsupportedOperators(request.operators, provider.capabilities.operators);
 
-      // Parse Related Topics
-      if (data.RelatedTopics && Array.isArray(data.RelatedTopics)) {
-        data.RelatedTopics.slice(0, 5).forEach((topic: any) => {
-          if (topic.Text && topic.FirstURL) {
-            results.push({
-              title: topic.Text.split(' - ')[0] || 'Related Topic',
-              url: topic.FirstURL,
-              snippet: topic.Text,
-              source: 'DuckDuckGo Related'
-            });
-          }
-        });
+    try {
+      const response = await withRetry(() => {
+        attempts++;
+        return engineDeadline.race(
+          provider.search(engineQuery, {
+            maxResults: this.config.maxResults,
+            offset: request.page.offset,
+            cursor: request.page.engineCursors[provider.name],
+            locale: request.locale,
+            filters: request.filters
+          }),
+          provider.name
+        );
+      }, this.retryPolicyFor(provider.name), engineDeadline);
+      breaker.recordSuccess();
+
+      // Clean URLs first so operator emulation, dedupe and fusion see the real target
+      const sanitized = this.sanitizeResponse(response);
+
+      // Provenance: engine rank is the position in this provider's filtered list
+      const filtered = applyFilters(filterByOperators(sanitized.results, emulated), request.filters, provider.capabilities.filters);
+      return {
+        ...sanitized,
+        results: rankResults(filtered).map(result => ({ ...result, engines: [provider.name] }))
+      };
+    } catch (providerError) {
+      // An empty answer is still an answer
+      if (providerError instanceof EngineNoResultsError) {
+        breaker.recordSuccess();
+      } else if (isEngineFailure(providerError, deadline.expired)) {
+        breaker.recordFailure(providerError);
+      } else {
+        breaker.releaseProbe();
       }
 
-      // Parse Results (if available)
-      if (data.Results && Array.isArray(data.Results)) {
-        data.Results.slice(0, 3).forEach((result: any) => {
-          if (result.Text && result.FirstURL) {
-            results.push({
-              title: result.Text.split(' - ')[0] || 'Search Result',
-              url: result.FirstURL,
-              snippet: result.Text,
-              source: 'DuckDuckGo'
-            });
-          }
-        });
+      errorInfo.engines[provider.name] = providerError instanceof Error ? providerError.message : String(providerError);
+      if (isTimeoutError(providerError) && deadline.expired) {
+        errorInfo.timedOut = true;
       }
-
-      return results.slice(0, this.config.maxResults);
-
-    } catch (error) {
-      return [];
+      return undefined;
+    } finally {
+      errorInfo.attempts = { ...errorInfo.attempts, [provider.name]: attempts };
     }
   }
 
-  private async getMockResults(query: string, processingTime: number, anonymized: boolean, errorInfo?: {
-    brightDataError?: string;
-    duckduckgoError?: string;
-  }): Promise<SearchResponse> {
-    // Apply real anonymization even for mock results
-    let anonymizationResult: AnonymizationResult | undefined;
-    let finalQuery = query;
-    
-    if (anonymized && this.config.enableAnonymization) {
-      try {
-        anonymizationResult = await wasmLLM.anonymizeQuery(query);
-        finalQuery = anonymizationResult.anonymizedQuery;
-      } catch (error) {
-        // Silent fallback to original query
-        finalQuery = query;
-      }
-    }
-    
-    // Fallback mock results when API fails
-    const mockResults: SearchResult[] = [
-      {
-        title: `${finalQuery} - Search Results`,
-        url: `https://en.wikipedia.org/wiki/${encodeURIComponent(finalQuery)}`,
-        snippet: `Information about ${finalQuery}. This is a mock result while the search engine is being optimized for better performance.`,
-        source: 'Mirror Search'
+  // Result URLs are cleaned and reported; links on answer cards are cleaned silently
+  private sanitizeResponse(response: ProviderResponse): ProviderResponse {
+    const { instantAnswer, featuredSnippet, knowledgePanel, refinements } = response;
+
+    return {
+      ...response,
+      results: sanitizeResults(response.results),
+      instantAnswer: instantAnswer && {
+        ...instantAnswer,
+        source: sanitizeLink(instantAnswer.source),
+        definition: instantAnswer.definition && {
+          ...instantAnswer.definition,
+          url: instantAnswer.definition.url && sanitizeUrl(instantAnswer.definition.url).url
+        },
+        relatedTopics: instantAnswer.relatedTopics.map(topic => ({ ...topic, url: sanitizeUrl(topic.url).url }))
       },
-      {
-        title: `${finalQuery} Guide and Information`,
-        url: `https://example.com/search?q=${encodeURIComponent(finalQuery)}`,
-        snippet: `Comprehensive guide and detailed information about ${finalQuery}. Privacy-first search results.`,
-        source: 'Mirror Search'
+      featuredSnippet: featuredSnippet && { ...featuredSnippet, source: sanitizeLink(featuredSnippet.source) },
+      knowledgePanel: knowledgePanel && {
+        ...knowledgePanel,
+        source: sanitizeLink(knowledgePanel.source),
+        website: knowledgePanel.website && sanitizeUrl(knowledgePanel.website).url
       },
-      {
-        title: `Best ${finalQuery} Resources`,
-        url: `https://example.com/resources/${encodeURIComponent(finalQuery)}`,
-        snippet: `Top resources and links related to ${finalQuery}. Curated content for your search query.`,
-        source: 'Mirror Search'
+      refinements: refinements && {
+        ...refinements,
+        peopleAlsoAsk: refinements.peopleAlsoAsk?.map(entry => ({ ...entry, source: sanitizeLink(entry.source) }))
       }
-    ];
+    };
+  }
 
+  // errorInfo is only worth returning when something failed, timed out or needed a retry
+  private hasErrorInfo(errorInfo: SearchErrorInfo): boolean {
+    const retried = Object.values(errorInfo.attempts || {}).some(count => count > 1);
+    return Object.keys(errorInfo.engines).length > 0 || !!errorInfo.timedOut || retried;
+  }
+
+  private retryPolicyFor(name: string): RetryPolicy {
     return {
-      results: mockResults,
-      totalResults: mockResults.length,
-      totalTime: processingTime,
-      engine: 'Mirror Search (Fallback)',
-      status: {
-        anonymized: !!anonymizationResult,
-        protected: true,
-        fast: processingTime < 1000,
-        secure: true
-      },
-      anonymization: anonymizationResult,
-      debug: anonymizationResult ? {
-        anonymizationMethod: anonymizationResult.method,
-        originalQuery: anonymizationResult.originalQuery,
-        anonymizedQuery: anonymizationResult.anonymizedQuery,
-        confidence: anonymizationResult.confidence
-      } : {
-        anonymizationMethod: 'no-anonymization',
-        originalQuery: query,
-        anonymizedQuery: query,
-        confidence: 0.0
-      },
-      errorInfo
+      ...this.config.retry,
+      ...this.config.engineRetry?.[name]
     };
   }
 
+  private breakerFor(name: string): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.config.circuitBreaker);
+      this.breakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  // Start the canary query on every HTML engine whose canary is due, without waiting
+  // for it. Called on every search and health check, which is as close to a schedule
+  // as the runtime allows. Engines with an open circuit are left alone; their last
+  // canary result stays in the report.
+  private startDueCanaries(providers: SearchProvider[] = this.activeProviders()): void {
+    for (const provider of providers) {
+      if (!provider.capabilities.htmlScraping || !this.parserHealth.canaryDue(provider.name)) continue;
+      if (this.canariesRunning.has(provider.name) || this.breakerFor(provider.name).currentState === 'open') continue;
+
+      this.canariesRunning.add(provider.name);
+      this.runCanary(provider).finally(() => this.canariesRunning.delete(provider.name));
+    }
+  }
+
+  private async runCanary(provider: SearchProvider): Promise<void> {
+    const deadline = new Deadline(this.config.timeout);
+    try {
+      const response = await deadline.race(
+        provider.search(CANARY_FIXTURE.query, {
+          maxResults: this.config.maxResults,
+          offset: 0,
+          locale: DEFAULT_LOCALE,
+          filters: DEFAULT_FILTERS
+        }),
+        provider.name
+      );
+      this.parserHealth.recordCanary(provider.name, checkCanary(response.results));
+    } catch (error) {
+      this.parserHealth.recordCanary(provider.name, {
+        at: Date.now(),
+        passed: false,
+        blocked: error instanceof EngineBlockedError,
+        results: 0,
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  // Providers selected for this request or by config.engines (in that order),
+  // otherwise every registered provider that is not explicit-only
+  private activeProviders(names: string[] | undefined = this.config.engines): SearchProvider[] {
+    return this.registry.resolve(names);
+  }
+
   async getEngineStatus(): Promise<{
-    brightData: boolean;
-    duckduckgo: boolean;
+    engines: Record<string, boolean>;
     wasmLLM: boolean;
     totalEngines: number;
     activeEngines: number;
   }> {
     const wasmStatus = await wasmLLM.getStatus();
-    
-    // Test Bright Data proxy availability
-    let brightDataStatus = false;
-    try {
-      // Test the proxy endpoint
-      const testResponse = await fetch(`${this.BRIGHT_DATA_PROXY_URL}/health`, {
-        method: 'GET'
-      });
-      brightDataStatus = testResponse.ok;
-    } catch (error) {
-      // Silent error handling
-    }
-    
-    // Test DuckDuckGo availability
-    let duckduckgoStatus = false;
-    try {
-      const testResponse = await fetch(`${this.SEARCH_API_URL}?q=test&format=json`, {
-        method: 'GET'
-      });
-      duckduckgoStatus = testResponse.ok;
-    } catch (error) {
-      // Silent error handling
-    }
+    const providers = this.activeProviders();
+    const engines: Record<string, boolean> = {};
+
+    // Same budget as healthCheck: an engine that does not answer in time counts as down
+    const deadline = new Deadline(HEALTH_CHECK_TIMEOUT);
+    const healths = await Promise.all(providers.map(provider =>
+      deadline.race(provider.health(), `${provider.displayName} health check`).catch((): ProviderHealth => ({ available: false }))
+    ));
+    providers.forEach((provider, index) => {
+      engines[provider.name] = healths[index].available;
+    });
 
-    const activeEngines = (brightDataStatus ? 1 : 0) + (duckduckgoStatus ? 1 : 0) + (wasmStatus.initialized ? 1 : 0);
+    const activeEngines = Object.values(engines).filter(Boolean).length + (wasmStatus.initialized ? 1 : 0);
 
     return {
-      brightData: brightDataStatus,
-      duckduckgo: duckduckgoStatus,
+      engines,
       wasmLLM: wasmStatus.initialized,
-      totalEngines: 3,
+      totalEngines: providers.length + 1,
       activeEngines
     };
   }
@@ -639,16 +797,58 @@ export class SearchEngines {
   async healthCheck(): Promise<{
     status: 'healthy' | 'degraded' | 'unhealthy';
     engines: object;
+    parsers: object;
+    cache: object;
     timestamp: number;
   }> {
-    const engineStatus = await this.getEngineStatus();
     const wasmStatus = await wasmLLM.getStatus();
-    
+    const engines: Record<string, object> = {};
+    let activeEngines = wasmStatus.initialized ? 1 : 0;
+    const providers = this.activeProviders();
+
+    this.startDueCanaries(providers);
+    const parsers = this.parserHealth.report();
+
+    // Every engine is checked at once, and one that does not answer in time counts as unavailable
+    const deadline = new Deadline(HEALTH_CHECK_TIMEOUT);
+    const healths = await Promise.all(providers.map(provider =>
+      deadline.race(provider.health(), `${provider.displayName} health check`).catch((error): ProviderHealth => ({
+        available: false,
+        message: error instanceof Error ? error.message : String(error)
+      }))
+    ));
+
+    providers.forEach((provider, index) => {
+      const health = healths[index];
+      if (health.available) {
+        activeEngines++;
+      }
+
+      engines[provider.name] = {
+        name: provider.displayName,
+        available: health.available,
+        endpoint: health.endpoint,
+        capabilities: provider.capabilities,
+        circuit: this.breakerFor(provider.name).snapshot(),
+        message: health.message
+      };
+    });
+
+    engines.wasmLLM = {
+      available: wasmStatus.initialized,
+      version: wasmStatus.version,
+      rulesCount: wasmStatus.rulesCount
+    };
+
+    const totalEngines = providers.length + 1;
     let status: 'healthy' | 'degraded' | 'unhealthy';
     
-    if (engineStatus.activeEngines === engineStatus.totalEngines) {
+    // A parser that looks broken degrades the service even if its engine still answers
+    const layoutBreak = Object.values(parsers).some(parser => parser.layoutBreak);
+
+    if (activeEngines === totalEngines && !layoutBreak) {
       status = 'healthy';
-    } else if (engineStatus.activeEngines > 0) {
+    } else if (activeEngines > 0) {
       status = 'degraded';
     } else {
       status = 'unhealthy';
@@ -656,26 +856,31 @@ export class SearchEngines {
 
     return {
       status,
-      engines: {
-        brightData: {
-          available: engineStatus.brightData,
-          endpoint: this.BRIGHT_DATA_PROXY_URL,
-          configured: true
-        },
-        duckduckgo: {
-          available: engineStatus.duckduckgo,
-          endpoint: this.SEARCH_API_URL
-        },
-        wasmLLM: {
-          available: wasmStatus.initialized,
-          version: wasmStatus.version,
-          rulesCount: wasmStatus.rulesCount
-        }
-      },
+      engines,
+      parsers,
+      cache: this.cache.stats(),
       timestamp: Date.now()
     };
   }
 }
 
+function hasCards(cards: AnswerCards): boolean {
+  return !!(cards.instantAnswer || cards.featuredSnippet || cards.knowledgePanel);
+}
+
+// Keep the cards already found; earlier engines in the chain win
+function mergeCards(found: AnswerCards, next: AnswerCards): AnswerCards {
+  return {
+    instantAnswer: found.instantAnswer || next.instantAnswer,
+    featuredSnippet: found.featuredSnippet || next.featuredSnippet,
+    knowledgePanel: found.knowledgePanel || next.knowledgePanel,
+    refinements: {
+      relatedSearches: found.refinements?.relatedSearches || next.refinements?.relatedSearches,
+      peopleAlsoAsk: found.refinements?.peopleAlsoAsk || next.refinements?.peopleAlsoAsk,
+      spellingSuggestion: found.refinements?.spellingSuggestion || next.refinements?.spellingSuggestion
+    }
+  };
+}
+
 // Export singleton instance
 export const searchEngines = new SearchEngines(); 
\ No newline at end of file
@@ -0,0 +1,140 @@
+/**
+ * Search Filters for Mirror Search
+ * Safe-search levels and time ranges, mapped to engine parameters or applied afterwards
+ */
+
+import { SearchResult } from './search-result';
+import { parseUrl } from './url-canonical';
+
+export type SafeSearchLevel = 'strict' | 'moderate' | 'off';
+export type TimeRange = 'any' | 'day' | 'week' | 'month' | 'year';
+
+export interface SearchFilters {
+  safeSearch: SafeSearchLevel;
+  timeRange: TimeRange;
+}
+
+// Which filters an engine applies itself; the rest are applied to its results
+export interface FilterSupport {
+  safeSearch: boolean;
+  timeRange: boolean;
+}
+
+export const DEFAULT_FILTERS: SearchFilters = { safeSearch: 'moderate', timeRange: 'any' };
+
+const SAFE_SEARCH_LEVELS: SafeSearchLevel[] = ['strict', 'moderate', 'off'];
+const TIME_RANGES: TimeRange[] = ['any', 'day', 'week', 'month', 'year'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TIME_RANGE_MS: Record<Exclude<TimeRange, 'any'>, number> = {
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+  month: 31 * DAY_MS,
+  year: 366 * DAY_MS
+};
+
+// Deliberately small: the post-filter only backs up engines without native safe search
+const EXPLICIT_TERMS = ['porn', 'xxx', 'nsfw', 'hentai', 'nude', 'nudes', 'sex', 'escort', 'camgirl', 'onlyfans'];
+
+export function isSafeSearchLevel(value: unknown): value is SafeSearchLevel {
+  return typeof value === 'string' && SAFE_SEARCH_LEVELS.includes(value as SafeSearchLevel);
+}
+
+export function isTimeRange(value: unknown): value is TimeRange {
+  return typeof value === 'string' && TIME_RANGES.includes(value as TimeRange);
+}
+
+// Google: safe=active|off (moderate is Google's default blur), tbs=qdr:d|w|m|y
+export function googleFilterParams(filters: SearchFilters): string {
+  const params: string[] = [];
+  if (filters.safeSearch === 'strict') {
+    params.push('safe=active');
+  } else if (filters.safeSearch === 'off') {
+    params.push('safe=off');
+  }
+  if (filters.timeRange !== 'any') {
+    params.push(`tbs=qdr:${filters.timeRange.charAt(0)}`);
+  }
+  return params.join('&');
+}
+
+// DuckDuckGo: kp=1 (strict), -1 (moderate), -2 (off); df=d|w|m|y
+export function duckDuckGoFilterParams(filters: SearchFilters): string {
+  const kp: Record<SafeSearchLevel, string> = { strict: '1', moderate: '-1', off: '-2' };
+  const params = [`kp=${kp[filters.safeSearch]}`];
+  if (filters.timeRange !== 'any') {
+    params.push(`df=${filters.timeRange.charAt(0)}`);
+  }
+  return params.join('&');
+}
+
+// Bing: adlt=strict|moderate|off; freshness via filters=ex1:"ez1|ez2|ez3", or an
+// explicit ez5_<from>_<to> range in days since the epoch for the past year
+export function bingFilterParams(filters: SearchFilters, now: number = Date.now()): string {
+  const params = [`adlt=${filters.safeSearch}`];
+  if (filters.timeRange !== 'any') {
+    const today = Math.floor(now / DAY_MS);
+    const freshness: Record<Exclude<TimeRange, 'any'>, string> = {
+      day: 'ez1',
+      week: 'ez2',
+      month: 'ez3',
+      year: `ez5_${today - 365}_${today}`
+    };
+    params.push(`filters=${encodeURIComponent(`ex1:"${freshness[filters.timeRange]}"`)}`);
+  }
+  return params.join('&');
+}
+
+// Yahoo: vm=r (strict), i (moderate), p (off); btf=d|w|m (no past-year option)
+export function yahooFilterParams(filters: SearchFilters): string {
+  const vm: Record<SafeSearchLevel, string> = { strict: 'r', moderate: 'i', off: 'p' };
+  const params = [`vm=${vm[filters.safeSearch]}`];
+  if (filters.timeRange !== 'any' && filters.timeRange !== 'year') {
+    params.push(`btf=${filters.timeRange.charAt(0)}`);
+  }
+  return params.join('&');
+}
+
+function containsExplicitTerm(text: string): boolean {
+  const words = text.toLowerCase().split(/[^a-z0-9]+/);
+  return EXPLICIT_TERMS.some(term => words.includes(term));
+}
+
+function isExplicit(result: SearchResult, level: SafeSearchLevel): boolean {
+  const host = parseUrl(result.url.toLowerCase())?.host || '';
+  if (containsExplicitTerm(host)) {
+    return true;
+  }
+  // Strict also screens the visible text, moderate only the site itself
+  return level === 'strict' && containsExplicitTerm(`${result.title} ${result.snippet}`);
+}
+
+// Results without a publication date cannot be checked and are kept
+function isWithinRange(result: SearchResult, range: TimeRange, now: number): boolean {
+  if (range === 'any' || !result.publishedDate) {
+    return true;
+  }
+
+  const published = Date.parse(result.publishedDate);
+  if (isNaN(published)) {
+    return true;
+  }
+
+  return now - published <= TIME_RANGE_MS[range];
+}
+
+// Apply the filters an engine could not apply natively
+export function applyFilters(results: SearchResult[], filters: SearchFilters, native: FilterSupport): SearchResult[] {
+  const checkSafeSearch = !native.safeSearch && filters.safeSearch !== 'off';
+  const checkTimeRange = !native.timeRange && filters.timeRange !== 'any';
+
+  if (!checkSafeSearch && !checkTimeRange) {
+    return results;
+  }
+
+  const now = Date.now();
+  return results.filter(result =>
+    (!checkSafeSearch || !isExplicit(result, filters.safeSearch)) &&
+    (!checkTimeRange || isWithinRange(result, filters.timeRange, now))
+  );
+}
@@ -1,67 +1,86 @@
 // Search Engine HTML Parsers
 import * as cheerio from 'cheerio';
-
-export interface SearchResult {
-  title: string;
-  url: string;
-  displayUrl: string;
-  snippet: string;
-  favicon?: string;
-  rank?: number;
-}
+import { AnyNode, Element, isTag } from 'domhandler';
+import { SearchLocale, DEFAULT_LOCALE, acceptLanguage } from './locale';
+import { SearchResult, RelatedQuestion, QueryRefinements, createResult, compactRefinements, displayUrlFor } from './search-result';
+import { parseUrl, queryParam, unwrapGoogleRedirect, unwrapYahooRedirect } from './url-canonical';
 
 export interface ParsedResults {
   results: SearchResult[];
   totalResults: number;
   searchTime: number;
   nextPageUrl?: string;
+  // Selector -> number of elements (or results) it matched; feeds the parser health monitor
+  selectorHits: Record<string, number>;
+  // Related searches, People also ask and spelling corrections, where the parser knows them
+  refinements?: QueryRefinements;
 }
 
 // Google Search Results Parser
+// Works from the DOM rather than class names alone: every organic result is an <a href>
+// wrapping an <h3>, and its block is the largest ancestor holding no other result title.
+// Title, URL, display URL and snippet are therefore always read from the same block.
+const GOOGLE_EXCLUDED_BLOCKS = [
+  '#tads', '#tadsb', '#bottomads', '[data-text-ad]', // ads
+  '.related-question-pair', '[jsname="N760b"]', // People also ask
+  'g-section-with-header', 'g-scrolling-carousel', // top stories / carousels
+  '#botstuff' // related searches and pagination
+].join(', ');
+
+const GOOGLE_SNIPPET_SELECTORS = '.VwiC3b, .IsZvec, [data-sncf="1"], [data-content-feature="1"], .s3v9rd, .st';
+
+const GOOGLE_OWNED_HOST = /(^|\.)(google\.[a-z.]+|googleusercontent\.com|gstatic\.com)$/;
+
+const GOOGLE_DISPLAY_URL_SELECTORS = 'cite, .UPmit';
+
+const GOOGLE_NEXT_PAGE_SELECTORS = 'a#pnnext, a[aria-label="Next page"], footer a[aria-label="Next"]';
+
 export function parseGoogleResults(html: string): ParsedResults {
   const $ = cheerio.load(html);
   const results: SearchResult[] = [];
+  const seen = new Set<string>();
+  const selectorHits: Record<string, number> = {
+    'a[href] h3': $('a[href] h3').length,
+    [GOOGLE_DISPLAY_URL_SELECTORS]: 0,
+    [GOOGLE_SNIPPET_SELECTORS]: 0
+  };
   
-  // Google search result selectors
-  const resultElements = $('div[data-ved] h3').parent().parent();
-  
-  resultElements.each((index, element) => {
+  $('a[href] h3').each((index, heading) => {
     try {
-      const $element = $(element);
+      const $heading = $(heading);
+      const $link = $heading.closest('a[href]').filter((_, node): node is Element => isTag(node));
       
-      // Extract title
-      const titleElement = $element.find('h3').first();
-      const title = titleElement.text().trim();
+      if ($link.closest(GOOGLE_EXCLUDED_BLOCKS).length > 0) return;
       
+      // Extract title
+      const title = $heading.text().replace(/\s+/g, ' ').trim();
       if (!title) return;
       
-      // Extract URL
-      const linkElement = $element.find('a[href]').first();
-      let url = linkElement.attr('href') || '';
+      // Extract URL (unwrap /url?q= redirects, skip Google's own pages)
+      const url = cleanGoogleUrl($link.attr('href') || '');
+      if (!url || seen.has(url)) return;
       
-      // Clean Google redirect URLs
-      if (url.startsWith('/url?q=')) {
-        const urlParam = new URLSearchParams(url.substring(6));
-        url = urlParam.get('q') || url;
-      }
+      const $block = googleResultBlock($, $link);
       
-      if (!url || url.startsWith('/search') || url.startsWith('#')) return;
+      // Extract display URL
+      const displayUrl = $block.find(GOOGLE_DISPLAY_URL_SELECTORS).first().text().replace(/\s+/g, ' ').trim() || undefined;
       
-      // Extract snippet
-      const snippetElement = $element.find('div[data-ved] span').last();
-      const snippet = snippetElement.text().trim();
+      // Extract snippet, with any leading "Mar 5, 2024 — " date split off
+      const rawSnippet = googleSnippet($, $block, $link);
+      const { text: snippet, date: publishedDate } = splitLeadingDate(rawSnippet.text);
       
-      // Extract display URL
-      const displayUrlElement = $element.find('cite').first();
-      const displayUrl = displayUrlElement.text().trim() || extractDomain(url);
+      if (displayUrl) selectorHits[GOOGLE_DISPLAY_URL_SELECTORS]++;
+      if (!rawSnippet.fallback) selectorHits[GOOGLE_SNIPPET_SELECTORS]++;
       
-      results.push({
+      seen.add(url);
+      results.push(createResult({
         title,
         url,
         displayUrl,
         snippet,
-        rank: index + 1
-      });
+        publishedDate,
+        rank: results.length + 1
+      }));
       
     } catch (error) {
       console.warn('Error parsing Google result:', error);
@@ -73,13 +92,95 @@ export function parseGoogleResults(html: string): ParsedResults {
   const statsText = statsElement.text();
   const totalResults = extractResultCount(statsText);
   
+  // Extract next page link (desktop and basic HTML layouts)
+  const nextHref = $(GOOGLE_NEXT_PAGE_SELECTORS).first().attr('href');
+  
+  selectorHits['#result-stats'] = statsElement.length;
+  selectorHits[GOOGLE_NEXT_PAGE_SELECTORS] = nextHref ? 1 : 0;
+  
   return {
     results,
     totalResults,
-    searchTime: 0 // Will be calculated by caller
+    searchTime: 0, // Will be calculated by caller
+    nextPageUrl: nextHref ? absoluteUrl(nextHref, 'https://www.google.com') : undefined,
+    selectorHits,
+    refinements: parseGoogleRefinements($)
   };
 }
 
+function parseGoogleRefinements($: cheerio.CheerioAPI): QueryRefinements {
+  // Related searches are plain /search?q= links below the results; pagination links carry start=
+  const relatedSearches = $('#botstuff a[href], #bres a[href]').toArray()
+    .map(link => $(link).attr('href') || '')
+    .filter(href => href.startsWith('/search?') && !/[?&]start=/.test(href))
+    .map(href => queryParam(href, 'q') || '');
+  
+  const peopleAlsoAsk: RelatedQuestion[] = $('.related-question-pair').toArray().map(element => {
+    const $pair = $(element);
+    const $link = $pair.find('a[href] h3').first().closest('a[href]');
+    const url = $link.length > 0 ? cleanGoogleUrl($link.attr('href') || '') : undefined;
+    
+    return {
+      question: $pair.attr('data-q') || $pair.find('[role="heading"]').first().text(),
+      answer: $pair.find(GOOGLE_SNIPPET_SELECTORS).first().text(),
+      source: url ? { name: $link.find('h3').text().trim() || displayUrlFor(url), url } : undefined
+    };
+  });
+  
+  // "Did you mean" (a.gL9Hy) and "Showing results for" (#fprsl) both link to the corrected query
+  const spellingHref = $('a.gL9Hy, a#fprsl, #fprs a').first().attr('href');
+  
+  return compactRefinements({
+    relatedSearches,
+    peopleAlsoAsk,
+    spellingSuggestion: spellingHref ? queryParam(spellingHref, 'q') : undefined
+  });
+}
+
+function cleanGoogleUrl(href: string): string | undefined {
+  const url = unwrapGoogleRedirect(href) || href.trim();
+  
+  if (!/^https?:\/\//i.test(url)) return undefined;
+  
+  const host = parseUrl(url)?.host || '';
+  return GOOGLE_OWNED_HOST.test(host) ? undefined : url;
+}
+
+// Climb from the result link while the ancestor still holds only this one result title
+function googleResultBlock($: cheerio.CheerioAPI, $link: cheerio.Cheerio<Element>): cheerio.Cheerio<AnyNode> {
+  let $block = $link;
+  let $parent = $block.parent();
+  
+  while ($parent.length > 0 && !$parent.is('body, #rso, #search, #main') && $parent.find('a[href] h3').length <= 1) {
+    $block = $parent;
+    $parent = $parent.parent();
+  }
+  
+  return $block;
+}
+
+function googleSnippet($: cheerio.CheerioAPI, $block: cheerio.Cheerio<AnyNode>, $link: cheerio.Cheerio<Element>): { text: string; fallback: boolean } {
+  const outsideLink = (element: AnyNode) => $(element).closest($link).length === 0;
+  
+  const known = $block.find(GOOGLE_SNIPPET_SELECTORS).filter((_, element) => outsideLink(element)).first();
+  if (known.length > 0) {
+    return { text: known.text().replace(/\s+/g, ' ').trim(), fallback: false };
+  }
+  
+  // Class names churn; fall back to the longest leaf text block outside the title link
+  let best = '';
+  $block.find('div, span').each((_, element) => {
+    const $element = $(element);
+    if (!outsideLink(element) || $element.find('div').length > 0 || $element.closest('cite').length > 0) return;
+    const text = $element.text().replace(/\s+/g, ' ').trim();
+    if (text.length > best.length) {
+      best = text;
+    }
+  });
+  
+  return { text: best, fallback: true };
+}
+
 // Bing Search Results Parser
 export function parseBingResults(html: string): ParsedResults {
   const $ = cheerio.load(html);
@@ -87,6 +188,12 @@ export function parseBingResults(html: string): ParsedResults {
   
   // Bing search result selectors
   const resultElements = $('.b_algo');
+  const selectorHits: Record<string, number> = {
+    '.b_algo': resultElements.length,
+    'h2 a': 0,
+    '.b_caption p, .b_caption .b_descript': 0,
+    '.b_attribution cite, .b_caption cite': 0
+  };
   
   resultElements.each((index, element) => {
     try {
@@ -97,6 +204,7 @@ export function parseBingResults(html: string): ParsedResults {
       const title = titleElement.text().trim();
       
       if (!title) return;
+      selectorHits['h2 a']++;
       
       // Extract URL
       const url = titleElement.attr('href') || '';
@@ -106,18 +214,20 @@ export function parseBingResults(html: string): ParsedResults {
       // Extract snippet
       const snippetElement = $element.find('.b_caption p, .b_caption .b_descript').first();
       const snippet = snippetElement.text().trim();
+      if (snippet) selectorHits['.b_caption p, .b_caption .b_descript']++;
       
       // Extract display URL
       const displayUrlElement = $element.find('.b_attribution cite, .b_caption cite').first();
-      const displayUrl = displayUrlElement.text().trim() || extractDomain(url);
+      const displayUrl = displayUrlElement.text().trim() || undefined;
+      if (displayUrl) selectorHits['.b_attribution cite, .b_caption cite']++;
       
-      results.push({
+      results.push(createResult({
         title,
         url,
         displayUrl,
         snippet,
-        rank: index + 1
-      });
+        rank: results.length + 1
+      }));
       
     } catch (error) {
       console.warn('Error parsing Bing result:', error);
@@ -129,20 +239,60 @@ export function parseBingResults(html: string): ParsedResults {
   const statsText = statsElement.text();
   const totalResults = extractResultCount(statsText);
   
+  // Extract next page link
+  const nextHref = $('a.sb_pagN').attr('href');
+  
+  selectorHits['.sb_count'] = statsElement.length;
+  selectorHits['a.sb_pagN'] = nextHref ? 1 : 0;
+  
   return {
     results,
     totalResults,
-    searchTime: 0
+    searchTime: 0,
+    nextPageUrl: nextHref ? absoluteUrl(nextHref, 'https://www.bing.com') : undefined,
+    selectorHits,
+    refinements: parseBingRefinements($)
   };
 }
 
+function parseBingRefinements($: cheerio.CheerioAPI): QueryRefinements {
+  const relatedSearches = $('.b_rs li a, #brsv3 li a').toArray().map(link => $(link).text());
+  
+  const peopleAlsoAsk: RelatedQuestion[] = $('.df_qntext').toArray().map(element => {
+    const $item = $(element).closest('[data-tag="RelatedQnA.Item"], .df_topAlAs');
+    const $link = $item.find('a[href^="http"]').first();
+    const url = $link.attr('href');
+    
+    return {
+      question: $(element).text(),
+      answer: $item.find('.df_alsocon, .rwrl').first().text(),
+      source: url ? { name: $link.text().trim() || displayUrlFor(url), url } : undefined
+    };
+  });
+  
+  // "Including results for <corrected>. Do you want results only for <original>?"
+  const $spelling = $('#sp_requery a, .sp_requery a').first();
+  
+  return compactRefinements({
+    relatedSearches,
+    peopleAlsoAsk,
+    spellingSuggestion: queryParam($spelling.attr('href') || '', 'q') || $spelling.text()
+  });
+}
+
 // DuckDuckGo Search Results Parser
 export function parseDuckDuckGoResults(html: string): ParsedResults {
   const $ = cheerio.load(html);
   const results: SearchResult[] = [];
   
-  // DuckDuckGo search result selectors
-  const resultElements = $('[data-result="result"]');
+  // DuckDuckGo search result selectors (JS page and the html.duckduckgo.com page), minus ads
+  const resultElements = $('[data-result="result"], .web-result').not('.result--ad');
+  const selectorHits: Record<string, number> = {
+    '[data-result="result"], .web-result': resultElements.length,
+    'h2 a, .result__title a': 0,
+    '.result__snippet, [data-result="snippet"]': 0,
+    '.result__url, [data-result="url"]': 0
+  };
   
   resultElements.each((index, element) => {
     try {
@@ -153,14 +303,14 @@ export function parseDuckDuckGoResults(html: string): ParsedResults {
       const title = titleElement.text().trim();
       
       if (!title) return;
+      selectorHits['h2 a, .result__title a']++;
       
       // Extract URL
       let url = titleElement.attr('href') || '';
       
-      // Handle DuckDuckGo redirect URLs
-      if (url.startsWith('/l/?uddg=') || url.startsWith('/l/?kh=')) {
-        const urlParam = new URLSearchParams(url.substring(3));
-        url = decodeURIComponent(urlParam.get('uddg') || urlParam.get('kh') || url);
+      // Handle DuckDuckGo redirect URLs (/l/?uddg=... or //duckduckgo.com/l/?uddg=...)
+      if (url.includes('/l/?')) {
+        url = queryParam(url, 'uddg') || queryParam(url, 'kh') || url;
       }
       
       if (!url || url.startsWith('/search') || url.startsWith('#')) return;
@@ -168,39 +318,141 @@ export function parseDuckDuckGoResults(html: string): ParsedResults {
       // Extract snippet
       const snippetElement = $element.find('.result__snippet, [data-result="snippet"]').first();
       const snippet = snippetElement.text().trim();
+      if (snippet) selectorHits['.result__snippet, [data-result="snippet"]']++;
       
       // Extract display URL
       const displayUrlElement = $element.find('.result__url, [data-result="url"]').first();
-      const displayUrl = displayUrlElement.text().trim() || extractDomain(url);
+      const displayUrl = displayUrlElement.text().trim() || undefined;
+      if (displayUrl) selectorHits['.result__url, [data-result="url"]']++;
       
-      results.push({
+      results.push(createResult({
         title,
         url,
         displayUrl,
         snippet,
-        rank: index + 1
-      });
+        rank: results.length + 1
+      }));
       
     } catch (error) {
       console.warn('Error parsing DuckDuckGo result:', error);
     }
   });
   
+  // DDG's HTML page uses a form with hidden inputs for the next page
+  const nextForm = $('.nav-link form').last();
+  const nextParams = nextForm.find('input[type="hidden"]').toArray()
+    .map(input => {
+      const name = $(input).attr('name');
+      return name ? `${encodeURIComponent(name)}=${encodeURIComponent($(input).attr('value') || '')}` : '';
+    })
+    .filter(Boolean);
+  
+  selectorHits['.nav-link form'] = nextForm.length;
+  
   return {
     results,
     totalResults: results.length, // DDG doesn't show total count
-    searchTime: 0
+    searchTime: 0,
+    nextPageUrl: nextParams.length > 0 ? `https://html.duckduckgo.com/html/?${nextParams.join('&')}` : undefined,
+    selectorHits
+  };
+}
+
+// Yahoo Search Results Parser
+export function parseYahooResults(html: string): ParsedResults {
+  const $ = cheerio.load(html);
+  const results: SearchResult[] = [];
+  
+  // Yahoo search result selectors (sponsored results live outside #web)
+  const resultElements = $('#web .algo, #web .algo-sr');
+  const selectorHits: Record<string, number> = {
+    '#web .algo, #web .algo-sr': resultElements.length,
+    'h3 a, .compTitle a': 0,
+    '.compText p, .compText': 0,
+    'h3 span, .compTitle span': 0
+  };
+  
+  resultElements.each((index, element) => {
+    try {
+      const $element = $(element);
+      
+      // Extract title; the link also wraps a breadcrumb span we do not want in the title
+      const linkElement = $element.find('h3 a, .compTitle a').first();
+      const titleElement = $element.find('h3').first();
+      const title = (linkElement.attr('aria-label') || titleElement.clone().find('span').remove().end().text()).trim();
+      
+      if (!title) return;
+      if (linkElement.length > 0) selectorHits['h3 a, .compTitle a']++;
+      
+      // Extract URL
+      const href = linkElement.attr('href') || '';
+      const url = unwrapYahooRedirect(href) || href;
+      
+      if (!url || url.startsWith('/search') || url.startsWith('#')) return;
+      
+      // Extract snippet
+      const snippetElement = $element.find('.compText p, .compText').first();
+      const snippet = snippetElement.text().trim();
+      if (snippet) selectorHits['.compText p, .compText']++;
+      
+      // Extract display URL
+      const displayUrlElement = $element.find('h3 span, .compTitle span').first();
+      const displayUrl = displayUrlElement.text().trim() || undefined;
+      if (displayUrl) selectorHits['h3 span, .compTitle span']++;
+      
+      results.push(createResult({
+        title,
+        url,
+        displayUrl,
+        snippet,
+        rank: results.length + 1
+      }));
+      
+    } catch (error) {
+      console.warn('Error parsing Yahoo result:', error);
+    }
+  });
+  
+  // Extract total results count
+  const statsText = $('.compPagination span').last().text();
+  const totalResults = extractResultCount(statsText);
+  
+  // Extract next page link
+  const nextHref = $('.compPagination a.next, a.next').attr('href');
+  
+  selectorHits['.compPagination a.next, a.next'] = nextHref ? 1 : 0;
+  
+  return {
+    results,
+    totalResults,
+    searchTime: 0,
+    nextPageUrl: nextHref ? absoluteUrl(nextHref, 'https://search.yahoo.com') : undefined,
+    selectorHits
   };
 }
 
 // Utility Functions
-function extractDomain(url: string): string {
-  try {
-    const urlObj = new URL(url);
-    return urlObj.hostname;
-  } catch {
-    return url;
+
+// "Mar 5, 2024 — Snippet text" -> { date: "2024-03-05T00:00:00.000Z", text: "Snippet text" }
+function splitLeadingDate(snippet: string): { text: string; date?: string } {
+  const match = snippet.match(/^([A-Z][a-z]{2,8}\.? \d{1,2}, \d{4}|\d{1,2} [A-Z][a-z]{2,8}\.? \d{4})\s+[—–-]\s+/);
+  if (!match) {
+    return { text: snippet };
+  }
+  
+  const parsed = Date.parse(`${match[1].replace('.', '')} UTC`);
+  if (isNaN(parsed)) {
+    return { text: snippet };
+  }
+  
+  return { text: snippet.substring(match[0].length), date: new Date(parsed).toISOString() };
+}
+
+function absoluteUrl(href: string, origin: string): string {
+  if (/^https?:\/\//i.test(href)) {
+    return href;
   }
+  return `${origin}${href.startsWith('/') ? '' : '/'}${href}`;
 }
 
 function extractResultCount(statsText: string): number {
@@ -229,11 +481,11 @@ export function getRandomUserAgent(): string {
 }
 
 // Generate privacy-preserving headers
-export function getPrivacyHeaders(): Record<string, string> {
+export function getPrivacyHeaders(locale: SearchLocale = DEFAULT_LOCALE): Record<string, string> {
   return {
     'User-Agent': getRandomUserAgent(),
     'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-    'Accept-Language': 'en-US,en;q=0.5',
+    'Accept-Language': acceptLanguage(locale),
     'Accept-Encoding': 'gzip, deflate, br',
     'Connection': 'keep-alive',
     'Upgrade-Insecure-Requests': '1',
@@ -0,0 +1,413 @@
+/**
+ * Built-in Search Providers for Mirror Search
+ * Bright Data proxy (Google SERP) and DuckDuckGo Instant Answer API
+ */
+
+import {
+  SearchResult,
+  InstantAnswer,
+  FeaturedSnippet,
+  KnowledgePanel,
+  InfoboxField,
+  RelatedTopic,
+  RelatedQuestion,
+  QueryRefinements,
+  createResult,
+  compactRefinements,
+  displayUrlFor
+} from './search-result';
+import {
+  SearchProvider,
+  ProviderCapabilities,
+  ProviderSearchOptions,
+  ProviderResponse,
+  ProviderHealth
+} from './engine-registry';
+import { ALL_OPERATORS } from './query-operators';
+import { acceptLanguage, googleLocaleParams, duckDuckGoRegion } from './locale';
+import { googleFilterParams, duckDuckGoFilterParams } from './search-filters';
+import { EngineError, EngineHttpError, EngineNoResultsError, EngineParseError, engineFetch } from './engine-errors';
+
+export interface ProviderConfig {
+  userAgent: string;
+}
+
+export class BrightDataProxyProvider implements SearchProvider {
+  readonly name = 'brightData';
+  readonly displayName = 'Google via Bright Data Proxy';
+  readonly capabilities: ProviderCapabilities = {
+    pagination: true,
+    instantAnswers: false,
+    htmlScraping: false,
+    operators: ALL_OPERATORS,
+    filters: { safeSearch: true, timeRange: true }
+  };
+
+  private readonly PROXY_URL = 'https://mirror-search-proxy.onrender.com/api/brightdataget'; // UPDATED for GET
+
+  constructor(private config: ProviderConfig) {}
+
+  async search(query: string, options: ProviderSearchOptions): Promise<ProviderResponse> {
+    try {
+      const cleanQuery = query.trim();
+
+      // Manually construct query string as URLSearchParams is not available
+      // Ensure cleanQuery is properly URI encoded.
+      const encodedQuery = encodeURIComponent(cleanQuery);
+      // Google paginates with a zero-based `start` offset
+      const startParam = options.offset > 0 ? `&start=${options.offset}` : '';
+      const filterParams = googleFilterParams(options.filters);
+      const fullProxyUrl = `${this.PROXY_URL}?query=${encodedQuery}&${googleLocaleParams(options.locale)}${filterParams ? `&${filterParams}` : ''}${startParam}`;
+
+      const response = await engineFetch(fullProxyUrl, {
+        method: 'GET',
+        headers: {
+          'User-Agent': this.config.userAgent,
+          'Accept': 'application/json',
+          'Accept-Language': acceptLanguage(options.locale),
+          'X-Request-Debug': 'true'
+        }
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new EngineHttpError(response.status, `Proxy HTTP error: ${response.status} - ${errorText.substring(0, 200)}`);
+      }
+
+      const responseText = await response.text();
+      let data;
+      try {
+        data = JSON.parse(responseText);
+      } catch (jsonError) {
+        try {
+          const jsonStartIndex = responseText.indexOf('{');
+          const jsonEndIndex = responseText.lastIndexOf('}') + 1;
+          if (jsonStartIndex >= 0 && jsonEndIndex > jsonStartIndex) {
+            const jsonPart = responseText.substring(jsonStartIndex, jsonEndIndex);
+            data = JSON.parse(jsonPart);
+          } else {
+            throw new EngineParseError(`No valid JSON found in response (query sent: '${cleanQuery}')`);
+          }
+        } catch (extractError) {
+          const reason = jsonError instanceof Error ? jsonError.message : String(jsonError);
+          throw new EngineParseError(`JSON parse error (query sent: '${cleanQuery}'): ${reason}. Response starts with: ${responseText.substring(0, 100)}`);
+        }
+      }
+
+      if (!data.success || !data.results || !Array.isArray(data.results)) {
+        throw new EngineParseError(`Invalid response format from proxy (query sent: '${cleanQuery}'). Proxy said: ${JSON.stringify(data).substring(0, 250)}`);
+      }
+
+      if (data.results.length === 0) {
+        throw new EngineNoResultsError(`No search results returned from proxy (query sent: '${cleanQuery}')`);
+      }
+
+      const results: SearchResult[] = data.results.slice(0, options.maxResults).map((result: any) => createResult({
+        title: result.title || `Result for ${cleanQuery}`,
+        url: result.url || `https://www.google.com/search?q=${encodeURIComponent(cleanQuery)}`,
+        displayUrl: result.displayUrl || undefined,
+        snippet: result.snippet || 'No description available',
+        publishedDate: result.date || undefined,
+        thumbnail: result.thumbnail || undefined
+      }));
+
+      // The proxy passes Google's answer box and entity card through when the SERP has them
+      const firstPage = options.offset === 0;
+
+      return {
+        results,
+        hasMore: data.results.length >= options.maxResults,
+        featuredSnippet: firstPage ? this.parseFeaturedSnippet(data.featured_snippet) : undefined,
+        knowledgePanel: firstPage ? this.parseKnowledgePanel(data.knowledge_panel) : undefined,
+        refinements: this.parseRefinements(data)
+      };
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ?
+        `Bright Data proxy error: ${error.message}` :
+        `Unknown Bright Data proxy error: ${String(error)}`;
+
+      // Health check without AbortController
+      const health = await this.health();
+      const message = health.available ? errorMessage : `${errorMessage} | Health check: ${health.message}`;
+
+      // Keep typed errors so the retry policy can classify them
+      if (error instanceof EngineError) {
+        error.message = message;
+        throw error;
+      }
+
+      throw new Error(message);
+    }
+  }
+
+  async health(): Promise<ProviderHealth> {
+    try {
+      const healthResponse = await fetch(`${this.PROXY_URL}/health`, {
+        method: 'GET'
+      });
+
+      return {
+        available: healthResponse.ok,
+        endpoint: this.PROXY_URL,
+        message: healthResponse.ok ? undefined : `Proxy health check failed with status ${healthResponse.status}`
+      };
+    } catch (error) {
+      return {
+        available: false,
+        endpoint: this.PROXY_URL,
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  // A featured snippet is only useful with the page it quotes, so both are required
+  parseFeaturedSnippet(snippet: any): FeaturedSnippet | undefined {
+    const text = snippet && (snippet.snippet || snippet.description);
+    if (!text || !snippet.link || !/^https?:\/\//i.test(snippet.link)) {
+      return undefined;
+    }
+
+    return {
+      title: snippet.title || displayUrlFor(snippet.link),
+      snippet: text,
+      source: {
+        name: snippet.display_link || snippet.source || displayUrlFor(snippet.link),
+        url: snippet.link
+      },
+      image: snippet.image || undefined,
+      engine: this.name
+    };
+  }
+
+  parseKnowledgePanel(kp: any): KnowledgePanel | undefined {
+    if (!kp || !kp.title) {
+      return undefined;
+    }
+
+    const sourceUrl = kp.source_link && /^https?:\/\//i.test(kp.source_link) ? kp.source_link : undefined;
+
+    return {
+      title: kp.title,
+      subtitle: kp.subtitle || undefined,
+      description: kp.description || undefined,
+      facts: this.parseFacts(kp.facts),
+      image: kp.image || undefined,
+      source: sourceUrl ? { name: kp.source || displayUrlFor(sourceUrl), url: sourceUrl } : undefined,
+      website: kp.website && /^https?:\/\//i.test(kp.website) ? kp.website : undefined,
+      engine: this.name
+    };
+  }
+
+  // Related searches may be plain strings or { query | text | title } objects
+  parseRefinements(data: any): QueryRefinements {
+    const relatedSearches = Array.isArray(data.related_searches || data.related)
+      ? (data.related_searches || data.related).map((entry: any) =>
+        typeof entry === 'string' ? entry : String((entry && (entry.query || entry.text || entry.title)) || ''))
+      : [];
+
+    const peopleAlsoAsk: RelatedQuestion[] = Array.isArray(data.people_also_ask)
+      ? data.people_also_ask
+        .filter((entry: any) => entry && typeof entry.question === 'string')
+        .map((entry: any) => {
+          const url = typeof entry.link === 'string' && /^https?:\/\//i.test(entry.link) ? entry.link : undefined;
+          return {
+            question: entry.question,
+            answer: typeof (entry.answer || entry.snippet) === 'string' ? entry.answer || entry.snippet : undefined,
+            source: url ? { name: entry.title || entry.display_link || displayUrlFor(url), url } : undefined
+          };
+        })
+      : [];
+
+    const spelling = data.spelling_suggestion || data.did_you_mean;
+
+    return compactRefinements({
+      relatedSearches,
+      peopleAlsoAsk,
+      spellingSuggestion: typeof spelling === 'string' ? spelling : undefined
+    });
+  }
+
+  // Facts come either as [{ key | label, value }] or as a plain { label: value } map
+  private parseFacts(facts: any): InfoboxField[] {
+    const entries: [unknown, unknown][] = Array.isArray(facts)
+      ? facts.map((fact: any) => [fact && (fact.key || fact.label), fact && fact.value])
+      : facts && typeof facts === 'object' ? Object.entries(facts) : [];
+
+    return entries
+      .filter(([label, value]) => label && (typeof value === 'string' || typeof value === 'number'))
+      .map(([label, value]) => ({ label: String(label), value: String(value) }));
+  }
+}
+
+export class DuckDuckGoProvider implements SearchProvider {
+  readonly name = 'duckduckgo';
+  readonly displayName = 'DuckDuckGo Privacy Search';
+  readonly capabilities: ProviderCapabilities = {
+    pagination: true,
+    instantAnswers: true,
+    htmlScraping: false,
+    // The Instant Answer API ignores search operators
+    operators: [],
+    // kp is honoured, but instant answers carry no dates so df has nothing to act on
+    filters: { safeSearch: true, timeRange: false }
+  };
+
+  private readonly API_URL = 'https://api.duckduckgo.com/';
+
+  constructor(private config: ProviderConfig) {}
+
+  async search(query: string, options: ProviderSearchOptions): Promise<ProviderResponse> {
+    // Ensure query is valid
+    if (!query || query.trim().length < 2) {
+      throw new Error('Query too short');
+    }
+
+    const cleanQuery = query.trim();
+    const url = `${this.API_URL}?q=${encodeURIComponent(cleanQuery)}&format=json&no_html=1&skip_disambig=1&kl=${duckDuckGoRegion(options.locale)}&${duckDuckGoFilterParams(options.filters)}`;
+
+    const response = await engineFetch(url, {
+      method: 'GET',
+      headers: {
+        'User-Agent': this.config.userAgent,
+        'Accept': 'application/json',
+        'Accept-Language': acceptLanguage(options.locale),
+      }
+    });
+
+    if (!response.ok) {
+      throw new EngineHttpError(response.status, `DuckDuckGo API error: ${response.status} ${response.statusText}`);
+    }
+
+    let data;
+    try {
+      data = await response.json();
+    } catch (jsonError) {
+      throw new EngineParseError(`DuckDuckGo API returned invalid JSON: ${jsonError instanceof Error ? jsonError.message : String(jsonError)}`);
+    }
+
+    // The Instant Answer API returns everything at once; page through it with
+    // our own offset cursor
+    const allResults = this.parseDuckDuckGoResults(data);
+    const start = options.cursor !== undefined ? parseInt(options.cursor, 10) || 0 : options.offset;
+    const end = start + options.maxResults;
+    const results = allResults.slice(start, end);
+    const instantAnswer = start === 0 ? this.parseInstantAnswer(data) : undefined;
+
+    // Nothing at all from DuckDuckGo: throw to trigger fallback. An instant answer
+    // alone is returned so the next engine can supply the organic results.
+    if (results.length === 0 && !instantAnswer) {
+      throw new EngineNoResultsError('No results from DuckDuckGo API');
+    }
+
+    return {
+      results,
+      hasMore: allResults.length > end,
+      nextCursor: allResults.length > end ? String(end) : undefined,
+      instantAnswer
+    };
+  }
+
+  async health(): Promise<ProviderHealth> {
+    try {
+      const testResponse = await fetch(`${this.API_URL}?q=test&format=json`, {
+        method: 'GET'
+      });
+
+      return {
+        available: testResponse.ok,
+        endpoint: this.API_URL,
+        message: testResponse.ok ? undefined : `DuckDuckGo API returned status ${testResponse.status}`
+      };
+    } catch (error) {
+      return {
+        available: false,
+        endpoint: this.API_URL,
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  // Instant Answer image paths are relative to duckduckgo.com
+  private absoluteImageUrl(path: string): string {
+    return /^https?:\/\//i.test(path) ? path : `https://duckduckgo.com${path.startsWith('/') ? '' : '/'}${path}`;
+  }
+
+  // Only the external links in Results are web results; abstracts, answers, definitions
+  // and related topics belong to the instant answer
+  private parseDuckDuckGoResults(data: any): SearchResult[] {
+    const results: SearchResult[] = [];
+
+    try {
+      // Parse Results (if available)
+      if (data.Results && Array.isArray(data.Results)) {
+        data.Results.forEach((result: any) => {
+          if (result.Text && result.FirstURL) {
+            results.push(createResult({
+              title: result.Text.split(' - ')[0] || 'Search Result',
+              url: result.FirstURL,
+              snippet: result.Text
+            }));
+          }
+        });
+      }
+
+      return results;
+
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private parseInstantAnswer(data: any): InstantAnswer | undefined {
+    try {
+      const abstract = typeof data.AbstractText === 'string' && data.AbstractText ? data.AbstractText : undefined;
+      // Some answer types (calculators, colour pickers) return widgets instead of text
+      const answer = typeof data.Answer === 'string' && data.Answer ? data.Answer : undefined;
+      const definition = typeof data.Definition === 'string' && data.Definition ? {
+        text: data.Definition,
+        source: data.DefinitionSource || undefined,
+        url: webUrl(data.DefinitionURL)
+      } : undefined;
+
+      // Infobox is an empty string when the entity has none
+      const infobox: InfoboxField[] = data.Infobox && Array.isArray(data.Infobox.content)
+        ? data.Infobox.content
+          .filter((field: any) => field && field.label && (typeof field.value === 'string' || typeof field.value === 'number'))
+          .map((field: any) => ({ label: String(field.label), value: String(field.value) }))
+        : [];
+
+      // Grouped topics nest their entries under Topics
+      const relatedTopics: RelatedTopic[] = Array.isArray(data.RelatedTopics)
+        ? data.RelatedTopics
+          .reduce((flat: any[], topic: any) => flat.concat(Array.isArray(topic.Topics) ? topic.Topics : [topic]), [])
+          .filter((topic: any) => topic.Text && webUrl(topic.FirstURL))
+          .map((topic: any) => ({ text: topic.Text, url: topic.FirstURL }))
+        : [];
+
+      if (!abstract && !answer && !definition && infobox.length === 0) {
+        return undefined;
+      }
+
+      return {
+        heading: data.Heading || '',
+        abstract,
+        answer,
+        answerType: answer ? data.AnswerType || undefined : undefined,
+        source: abstract && webUrl(data.AbstractURL) ? { name: data.AbstractSource || 'Source', url: data.AbstractURL } : undefined,
+        image: data.Image ? this.absoluteImageUrl(data.Image) : undefined,
+        infobox,
+        definition,
+        relatedTopics,
+        engine: this.name
+      };
+    } catch (error) {
+      return undefined;
+    }
+  }
+}
+
+// Upstream link fields become clickable card links: never javascript:, data: or other schemes
+function webUrl(value: unknown): string | undefined {
+  return typeof value === 'string' && /^https?:\/\//i.test(value) ? value : undefined;
+}
@@ -0,0 +1,168 @@
+/**
+ * Search Result Model for Mirror Search
+ * The single result shape shared by engines, parsers, the API response and the UI
+ */
+
+import { parseUrl } from './url-canonical';
+
+// Featured snippets, knowledge panels and instant answers are separate response
+// fields, never result rows
+export type ResultType = 'organic' | 'news';
+
+export interface SearchResult {
+  title: string;
+  url: string;
+  // Human-readable location as the engine showed it (breadcrumb/cite), or host + path
+  displayUrl: string;
+  snippet: string;
+  // 1-based position: within the engine's own list, then within the final response
+  rank: number;
+  // Provider names that returned this result
+  engines: string[];
+  type: ResultType;
+  // ISO 8601 publication date, when the engine reports one
+  publishedDate?: string;
+  thumbnail?: string;
+  // Fused relevance score when results were merged from several engines
+  score?: number;
+  // What the URL sanitizer removed from `url`; absent when the URL was already clean
+  sanitized?: UrlSanitization;
+}
+
+export interface UrlSanitization {
+  // Names of the tracking parameters that were removed
+  trackingParams: string[];
+  // Engine whose redirect wrapper was unwrapped, e.g. "google" for /url?q=
+  redirect?: string;
+  // An AMP viewer or AMP cache URL was turned back into the publisher URL
+  amp?: boolean;
+}
+
+export interface InfoboxField {
+  label: string;
+  value: string;
+}
+
+export interface SourceLink {
+  name: string;
+  url: string;
+}
+
+export interface RelatedTopic {
+  text: string;
+  url: string;
+}
+
+// Direct answer shown beside the organic results. It is never ranked, deduplicated
+// or counted with them.
+export interface InstantAnswer {
+  heading: string;
+  abstract?: string;
+  // Short computed answer (calculator, conversion, ...) and its kind
+  answer?: string;
+  answerType?: string;
+  source?: SourceLink;
+  image?: string;
+  infobox: InfoboxField[];
+  definition?: {
+    text: string;
+    source?: string;
+    url?: string;
+  };
+  relatedTopics: RelatedTopic[];
+  // Provider that supplied the answer
+  engine: string;
+}
+
+// Answer box an engine shows above its organic results, quoting one page
+export interface FeaturedSnippet {
+  title: string;
+  snippet: string;
+  source: SourceLink;
+  image?: string;
+  engine: string;
+}
+
+// Entity card an engine shows beside its organic results
+export interface KnowledgePanel {
+  title: string;
+  subtitle?: string;
+  description?: string;
+  facts: InfoboxField[];
+  image?: string;
+  // Where the description comes from, e.g. Wikipedia
+  source?: SourceLink;
+  website?: string;
+  engine: string;
+}
+
+export interface RelatedQuestion {
+  question: string;
+  // Answer excerpt and the page it comes from, when the engine inlines them
+  answer?: string;
+  source?: SourceLink;
+}
+
+// Ways the engine suggests changing the query. Empty lists are left out.
+export interface QueryRefinements {
+  relatedSearches?: string[];
+  peopleAlsoAsk?: RelatedQuestion[];
+  // "Did you mean" / "Showing results for" correction
+  spellingSuggestion?: string;
+}
+
+export type ResultFields = Pick<SearchResult, 'title' | 'url' | 'snippet'> & Partial<SearchResult>;
+
+// "https://www.example.com/docs/page?x=1" -> "example.com/docs/page"
+export function displayUrlFor(url: string): string {
+  const parsed = parseUrl(url);
+  if (!parsed) {
+    return url;
+  }
+
+  const host = parsed.host.replace(/^www\./, '');
+  const path = parsed.path === '/' ? '' : parsed.path.replace(/\/$/, '');
+  return `${host}${path}`;
+}
+
+// Fill in the fields engines rarely know themselves. Rank 0 means "not ranked yet";
+// the orchestrator assigns engine ranks and final ranks.
+export function createResult(fields: ResultFields): SearchResult {
+  return {
+    ...fields,
+    displayUrl: fields.displayUrl || displayUrlFor(fields.url),
+    rank: fields.rank ?? 0,
+    engines: fields.engines ?? [],
+    type: fields.type ?? 'organic'
+  };
+}
+
+// Trim and dedupe what an engine suggested; empty lists and blank strings become undefined
+export function compactRefinements(refinements: QueryRefinements): QueryRefinements {
+  const clean = (text: string | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+  const seen = new Set<string>();
+  const firstSeen = (text: string) => {
+    const key = text.toLowerCase();
+    if (!text || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  };
+
+  const relatedSearches = (refinements.relatedSearches || []).map(clean).filter(firstSeen);
+  seen.clear();
+  const peopleAlsoAsk = (refinements.peopleAlsoAsk || [])
+    .map(entry => ({ ...entry, question: clean(entry.question), answer: clean(entry.answer) || undefined }))
+    .filter(entry => firstSeen(entry.question));
+  const spellingSuggestion = clean(refinements.spellingSuggestion);
+
+  return {
+    relatedSearches: relatedSearches.length > 0 ? relatedSearches : undefined,
+    peopleAlsoAsk: peopleAlsoAsk.length > 0 ? peopleAlsoAsk : undefined,
+    spellingSuggestion: spellingSuggestion || undefined
+  };
+}
+
+// Number results by position, starting after `offset` results already shown
+export function rankResults(results: SearchResult[], offset: number = 0): SearchResult[] {
+  return results.map((result, index) => ({ ...result, rank: offset + index + 1 }));
+}
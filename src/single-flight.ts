@@ -0,0 +1,30 @@
+/**
+ * Single-Flight Request Coalescing for Mirror Search
+ * Concurrent calls with the same key share one in-flight upstream request
+ */
+
+export class SingleFlight<T> {
+  private inFlight: Map<string, Promise<T>> = new Map();
+
+  // Run `operation` for `key` unless a call with the same key is already running,
+  // in which case the caller joins that call and receives the same settled value
+  async do(key: string, operation: () => Promise<T>): Promise<{ value: T; shared: boolean }> {
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      return { value: await existing, shared: true };
+    }
+
+    const pending = operation();
+    this.inFlight.set(key, pending);
+
+    try {
+      return { value: await pending, shared: false };
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  get size(): number {
+    return this.inFlight.size;
+  }
+}
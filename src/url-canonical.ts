@@ -0,0 +1,213 @@
+/**
+ * URL Canonicalization for Mirror Search
+ * Collapses duplicate results that point at the same page through different URL spellings
+ */
+
+import { SearchResult } from './search-result';
+
+export interface ParsedUrl {
+  scheme: string;
+  host: string;
+  port: string;
+  path: string;
+  query: string;
+  fragment: string;
+}
+
+// Query parameters that only carry attribution data and never change page content.
+// Shared by deduplication and the URL sanitizer; add new ones here.
+export const TRACKING_PARAMS = [
+  // Ad click IDs
+  'fbclid',
+  'gclid',
+  'gbraid',
+  'wbraid',
+  'gad_source',
+  'dclid',
+  'msclkid',
+  'yclid',
+  'twclid',
+  'ttclid',
+  'li_fat_id',
+  'epik',
+  // Newsletter and marketing automation
+  'mc_cid',
+  'mc_eid',
+  'mkt_tok',
+  '_hsenc',
+  '_hsmi',
+  'oly_anon_id',
+  'oly_enc_id',
+  'vero_id',
+  'wickedid',
+  // Analytics and share attribution
+  'igshid',
+  '_ga',
+  '_gl',
+  'ref_src',
+  'srsltid',
+  's_kwcid',
+  'ef_id'
+];
+
+// utm_* (Google Analytics), pk_* / mtm_* (Matomo), hsa_* (HubSpot ads)
+const TRACKING_PREFIXES = ['utm_', 'pk_', 'mtm_', 'hsa_'];
+
+const DEFAULT_PORTS: Record<string, string> = {
+  http: '80',
+  https: '443'
+};
+
+// Snippets engines emit when they have nothing real to show
+const PLACEHOLDER_SNIPPETS = [
+  'no description available'
+];
+
+// Manual parser - URL/URLSearchParams are not reliably available in the Bless WASM runtime
+export function parseUrl(url: string): ParsedUrl | null {
+  const match = url.trim().match(/^([a-z][a-z0-9+.-]*):\/\/([^/?#:]+)(?::(\d+))?([^?#]*)(?:\?([^#]*))?(?:#(.*))?$/i);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    scheme: match[1].toLowerCase(),
+    host: match[2].toLowerCase(),
+    port: match[3] || '',
+    path: match[4] || '/',
+    query: match[5] || '',
+    fragment: match[6] || ''
+  };
+}
+
+// Every query parameter of a (possibly relative) URL, decoded; the first of repeated
+// names wins. URLSearchParams is not available in the Bless WASM runtime.
+export function queryParams(url: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  const query = url.split('#')[0].split('?').slice(1).join('?');
+
+  for (const pair of query.split('&')) {
+    const [key, ...rest] = pair.split('=');
+    const name = decodeParam(key);
+    if (name && !(name in params)) {
+      params[name] = decodeParam(rest.join('='));
+    }
+  }
+
+  return params;
+}
+
+export function queryParam(url: string, name: string): string | undefined {
+  const params = queryParams(url);
+  return Object.prototype.hasOwnProperty.call(params, name) ? params[name] : undefined;
+}
+
+// Google result links: https://www.google.com/url?q=<target>&sa=U&ved=... or the
+// relative /url?q=<target> on result pages. Undefined for anything else.
+export function unwrapGoogleRedirect(url: string): string | undefined {
+  const trimmed = url.trim();
+  const parsed = parseUrl(trimmed);
+  const isRedirect = parsed
+    ? /(^|\.)google\.[a-z.]+$/.test(parsed.host) && parsed.path === '/url'
+    : trimmed.startsWith('/url?');
+
+  const target = isRedirect ? queryParam(trimmed, 'q') || queryParam(trimmed, 'url') : undefined;
+  return target && /^https?:\/\//i.test(target) ? target : undefined;
+}
+
+// Yahoo result links: https://r.search.yahoo.com/_ylt=.../RU=<target>/RK=2/RS=...
+export function unwrapYahooRedirect(url: string): string | undefined {
+  const match = url.match(/\/RU=([^/]+)\//);
+  if (!match) {
+    return undefined;
+  }
+
+  const target = decodeParam(match[1]);
+  return /^https?:\/\//i.test(target) ? target : undefined;
+}
+
+function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+}
+
+export function isTrackingParam(name: string): boolean {
+  const key = name.toLowerCase();
+  return TRACKING_PARAMS.includes(key) || TRACKING_PREFIXES.some(prefix => key.startsWith(prefix));
+}
+
+export function canonicalizeUrl(url: string): string {
+  const parsed = parseUrl(url);
+  if (!parsed) {
+    return url.trim();
+  }
+
+  // http and https variants of a page are treated as the same document
+  const scheme = parsed.scheme === 'http' ? 'https' : parsed.scheme;
+  const host = parsed.host.replace(/^www\./, '').replace(/\.$/, '');
+  const port = parsed.port && parsed.port !== DEFAULT_PORTS[parsed.scheme] ? `:${parsed.port}` : '';
+
+  let path = parsed.path.replace(/\/{2,}/g, '/');
+  if (path.length > 1) {
+    path = path.replace(/\/+$/, '');
+  }
+  if (path === '/') {
+    path = '';
+  }
+
+  const params = parsed.query
+    .split('&')
+    .filter(pair => pair.length > 0)
+    .filter(pair => !isTrackingParam(pair.split('=')[0]))
+    .sort();
+
+  return `${scheme}://${host}${port}${path}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+}
+
+function snippetQuality(snippet: string): number {
+  const text = (snippet || '').trim();
+  if (!text || PLACEHOLDER_SNIPPETS.includes(text.toLowerCase())) {
+    return 0;
+  }
+
+  return text.length;
+}
+
+// Fold a later copy of the same page into the one being kept: the better snippet,
+// every engine, and whatever optional fields the kept copy is missing
+export function mergeDuplicate(existing: SearchResult, duplicate: SearchResult): void {
+  if (snippetQuality(duplicate.snippet) > snippetQuality(existing.snippet)) {
+    existing.snippet = duplicate.snippet;
+  }
+
+  existing.engines = [...new Set([...existing.engines, ...duplicate.engines])];
+  existing.publishedDate = existing.publishedDate || duplicate.publishedDate;
+  existing.thumbnail = existing.thumbnail || duplicate.thumbnail;
+  existing.sanitized = existing.sanitized || duplicate.sanitized;
+}
+
+// Collapse results with the same canonical URL, keeping the first position and the best snippet
+export function dedupeResults(results: SearchResult[]): SearchResult[] {
+  const seen = new Map<string, SearchResult>();
+
+  for (const result of results) {
+    const key = canonicalizeUrl(result.url);
+    const existing = seen.get(key);
+
+    if (!existing) {
+      seen.set(key, { ...result });
+      continue;
+    }
+
+    mergeDuplicate(existing, result);
+
+    if (result.score !== undefined) {
+      existing.score = Math.max(existing.score ?? 0, result.score);
+    }
+  }
+
+  return Array.from(seen.values());
+}
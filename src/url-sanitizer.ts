@@ -0,0 +1,235 @@
+/**
+ * URL Sanitizer for Mirror Search
+ * Removes tracking parameters and unwraps engine redirects and AMP links in results
+ */
+
+import { SearchResult, UrlSanitization, SourceLink } from './search-result';
+import { parseUrl, isTrackingParam, queryParam, unwrapGoogleRedirect, unwrapYahooRedirect } from './url-canonical';
+
+export interface SanitizationSummary {
+  // Results whose URL was changed
+  results: number;
+  // Tracking parameter name -> number of results it was removed from
+  trackingParams: Record<string, number>;
+  redirects: number;
+  amp: number;
+}
+
+interface RedirectUnwrapper {
+  engine: string;
+  matches: (host: string, path: string) => boolean;
+  target: (url: string) => string | undefined;
+}
+
+// Nested wrappers (an engine redirect around an AMP cache link, ...) are peeled this many times at most
+const MAX_UNWRAP_DEPTH = 3;
+
+// Query flags that select a publisher's AMP rendering of the same page
+const AMP_FLAGS = ['amp', 'outputtype'];
+
+const REDIRECT_UNWRAPPERS: RedirectUnwrapper[] = [
+  {
+    // https://www.google.com/url?q=<target>&sa=U&ved=...
+    engine: 'google',
+    matches: (host, path) => /(^|\.)google\.[a-z.]+$/.test(host) && path === '/url',
+    target: unwrapGoogleRedirect
+  },
+  {
+    // https://www.bing.com/ck/a?!&&p=...&u=a1<base64url target>&ntb=1
+    engine: 'bing',
+    matches: (host, path) => /(^|\.)bing\.com$/.test(host) && path === '/ck/a',
+    target: url => {
+      const encoded = queryParam(url, 'u');
+      return encoded && encoded.startsWith('a1') ? decodeBase64Url(encoded.substring(2)) : undefined;
+    }
+  },
+  {
+    // https://duckduckgo.com/l/?uddg=<target>&rut=...
+    engine: 'duckduckgo',
+    matches: (host, path) => /(^|\.)duckduckgo\.com$/.test(host) && path === '/l/',
+    target: url => queryParam(url, 'uddg')
+  },
+  {
+    // https://r.search.yahoo.com/_ylt=.../RU=<target>/RK=2/RS=...
+    engine: 'yahoo',
+    matches: host => host === 'r.search.yahoo.com',
+    target: unwrapYahooRedirect
+  }
+];
+
+// Clean one URL. `sanitization` is only set when something was removed.
+export function sanitizeUrl(url: string): { url: string; sanitization?: UrlSanitization } {
+  const sanitization: UrlSanitization = { trackingParams: [] };
+  let current = url.trim();
+
+  for (let depth = 0; depth < MAX_UNWRAP_DEPTH; depth++) {
+    const redirect = unwrapRedirect(current);
+    if (redirect) {
+      current = redirect.url;
+      sanitization.redirect = sanitization.redirect || redirect.engine;
+      continue;
+    }
+
+    const canonical = unwrapAmp(current);
+    if (canonical) {
+      current = canonical;
+      sanitization.amp = true;
+      continue;
+    }
+
+    break;
+  }
+
+  const stripped = stripParams(current, isTrackingParam);
+  sanitization.trackingParams = stripped.removed;
+  current = stripped.url;
+
+  const ampFlags = stripParams(current, name => AMP_FLAGS.includes(name.toLowerCase()) && ampFlagValue(current, name));
+  if (ampFlags.removed.length > 0) {
+    current = ampFlags.url;
+    sanitization.amp = true;
+  }
+
+  const changed = sanitization.trackingParams.length > 0 || !!sanitization.redirect || !!sanitization.amp;
+  return changed ? { url: current, sanitization } : { url: current };
+}
+
+export function sanitizeResults(results: SearchResult[]): SearchResult[] {
+  return results.map(result => {
+    const { url, sanitization } = sanitizeUrl(result.url);
+    return sanitization ? { ...result, url, sanitized: sanitization } : result;
+  });
+}
+
+// Card links are cleaned the same way but not reported
+export function sanitizeLink<T extends SourceLink | undefined>(link: T): T {
+  return link ? { ...link, url: sanitizeUrl(link.url).url } : link;
+}
+
+export function summarizeSanitization(results: SearchResult[]): SanitizationSummary {
+  const summary: SanitizationSummary = { results: 0, trackingParams: {}, redirects: 0, amp: 0 };
+
+  for (const { sanitized } of results) {
+    if (!sanitized) {
+      continue;
+    }
+
+    summary.results++;
+    summary.redirects += sanitized.redirect ? 1 : 0;
+    summary.amp += sanitized.amp ? 1 : 0;
+    for (const name of new Set(sanitized.trackingParams)) {
+      summary.trackingParams[name] = (summary.trackingParams[name] || 0) + 1;
+    }
+  }
+
+  return summary;
+}
+
+function unwrapRedirect(url: string): { url: string; engine: string } | undefined {
+  const parsed = parseUrl(url);
+  if (!parsed) {
+    return undefined;
+  }
+
+  for (const unwrapper of REDIRECT_UNWRAPPERS) {
+    if (unwrapper.matches(parsed.host, parsed.path)) {
+      const target = unwrapper.target(url);
+      return target && /^https?:\/\//i.test(target) ? { url: target, engine: unwrapper.engine } : undefined;
+    }
+  }
+
+  return undefined;
+}
+
+// Google's AMP viewer (google.com/amp/s/<url>) and the AMP cache
+// (<host>.cdn.ampproject.org/c/s/<url>). A publisher's own amp.* pages are left
+// alone: their canonical URL is only known from the page itself.
+function unwrapAmp(url: string): string | undefined {
+  const parsed = parseUrl(url);
+  if (!parsed) {
+    return undefined;
+  }
+
+  const rest = url.trim().replace(/^[a-z][a-z0-9+.-]*:\/\/[^/?#]+/i, '');
+  let match: RegExpMatchArray | null = null;
+
+  if (/(^|\.)google\.[a-z.]+$/.test(parsed.host)) {
+    match = rest.match(/^\/amp\/(s\/)?(.+)$/);
+  } else if (parsed.host.endsWith('.cdn.ampproject.org')) {
+    match = rest.match(/^\/(?:[a-z]{1,2}\/)?(s\/)?(.+)$/);
+  }
+
+  if (!match || !/^[a-z0-9-]+(\.[a-z0-9-]+)+([/?#:]|$)/i.test(match[2])) {
+    return undefined;
+  }
+
+  return `${match[1] ? 'https' : 'http'}://${match[2]}`;
+}
+
+// Rebuild the query without the matching parameters, keeping the rest as written
+function stripParams(url: string, strip: (name: string) => boolean): { url: string; removed: string[] } {
+  const hashIndex = url.indexOf('#');
+  const fragment = hashIndex >= 0 ? url.substring(hashIndex) : '';
+  const withoutFragment = hashIndex >= 0 ? url.substring(0, hashIndex) : url;
+  const queryIndex = withoutFragment.indexOf('?');
+
+  if (queryIndex < 0) {
+    return { url, removed: [] };
+  }
+
+  const removed: string[] = [];
+  const kept = withoutFragment.substring(queryIndex + 1).split('&').filter(pair => {
+    const name = safeDecode(pair.split('=')[0]);
+    if (pair.length > 0 && strip(name)) {
+      removed.push(name);
+      return false;
+    }
+    return pair.length > 0;
+  });
+
+  if (removed.length === 0) {
+    return { url, removed };
+  }
+
+  const base = withoutFragment.substring(0, queryIndex);
+  return { url: `${base}${kept.length > 0 ? `?${kept.join('&')}` : ''}${fragment}`, removed };
+}
+
+// `amp`, `amp=1`, `amp=true` and `outputType=amp` select the AMP page; `amp=0` does not
+function ampFlagValue(url: string, name: string): boolean {
+  const value = (queryParam(url, name) || '').toLowerCase();
+  return name.toLowerCase() === 'outputtype' ? value === 'amp' : ['', '1', 'true'].includes(value);
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// atob is not available in the Bless WASM runtime either
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function decodeBase64Url(encoded: string): string | undefined {
+  const input = encoded.replace(/-/g, '+').replace(/_/g, '/').replace(/=+$/, '');
+  let bits = 0;
+  let buffer = 0;
+  let bytes = '';
+
+  for (const char of input) {
+    const value = BASE64_ALPHABET.indexOf(char);
+    if (value < 0) {
+      return undefined;
+    }
+    buffer = ((buffer << 6) | value) & 0xffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes += `%${((buffer >> bits) & 0xff).toString(16).padStart(2, '0')}`;
+    }
+  }
+
+  return safeDecode(bytes) || undefined;
+}
@@ -26,6 +26,8 @@ export interface AnonymizationResult {
   preservedSemantics: string[];
   processingTime: number;
   method: 'tinyllama' | 'rule-based' | 'fallback' | 'onnx-llm';
+  // ISO 639-1 language the query was anonymized as
+  language?: string;
 }
 
 interface AnonymizationSubResult {
@@ -151,7 +153,9 @@ export class WasmLLM {
     }
   }
 
-  async anonymizeQuery(query: string): Promise<AnonymizationResult> {
+  // `language` is the ISO 639-1 code of the query. The word rules are English, so other
+  // languages only get the language-neutral patterns and keep their own casing rules.
+  async anonymizeQuery(query: string, language: string = 'en'): Promise<AnonymizationResult> {
     const startTime = Date.now();
     
     if (!this.isInitialized) {
@@ -160,7 +164,7 @@ export class WasmLLM {
 
     try {
       // Clean and normalize query
-      const normalizedQuery = query.toLowerCase().trim();
+      const normalizedQuery = this.normalize(query, language);
       
       // If query is too short, return as-is
       if (normalizedQuery.length < 3) {
@@ -170,19 +174,21 @@ export class WasmLLM {
           confidence: 0.9,
           preservedSemantics: ['short-query'],
           processingTime: Date.now() - startTime,
-          method: 'fallback'
+          method: 'fallback',
+          language
         };
       }
 
       // Try ONNX anonymization first
       if (this.tinyLlamaModel && this.tinyLlamaModel.loaded) {
         try {
-          const result = await this.onnxAnonymize(query);
+          const result = await this.onnxAnonymize(query, language);
           if (result) {
             return {
               ...result,
               processingTime: Date.now() - startTime,
-              method: 'onnx-llm'
+              method: 'onnx-llm',
+              language
             };
           }
         } catch (error) {
@@ -193,12 +199,13 @@ export class WasmLLM {
       // Try TinyLlama anonymization first
       if (this.tinyLlamaModel) {
         try {
-          const result = await this.tinyLlamaAnonymize(query);
+          const result = await this.tinyLlamaAnonymize(query, language);
           if (result) {
             return {
               ...result,
               processingTime: Date.now() - startTime,
-              method: 'tinyllama'
+              method: 'tinyllama',
+              language
             };
           }
         } catch (error) {
@@ -207,23 +214,43 @@ export class WasmLLM {
       }
       
       // Fallback to rule-based anonymization
-      return await this.ruleBasedAnonymize(query, startTime);
+      return await this.ruleBasedAnonymize(query, startTime, language);
 
     } catch (error) {
       // Final fallback
       return {
         originalQuery: query,
-        anonymizedQuery: this.basicAnonymization(query),
+        anonymizedQuery: this.basicAnonymization(query, language),
         confidence: 0.3,
         preservedSemantics: ['general'],
         processingTime: Date.now() - startTime,
-        method: 'fallback'
+        method: 'fallback',
+        language
       };
     }
   }
 
+  // Rules only, never the model: cheap enough to run on every keystroke (see /suggest)
+  async anonymizeWithRules(query: string, language: string = 'en'): Promise<AnonymizationResult> {
+    return this.ruleBasedAnonymize(query, Date.now(), language);
+  }
+
+  private isEnglish(language: string): boolean {
+    return language.toLowerCase() === 'en';
+  }
+
+  // Locale-aware lowercasing (e.g. Turkish dotted/dotless i); falls back where the
+  // runtime has no locale data
+  private normalize(query: string, language: string): string {
+    try {
+      return query.toLocaleLowerCase(language).trim();
+    } catch (error) {
+      return query.toLowerCase().trim();
+    }
+  }
+
   // TinyLlama-based anonymization
-  private async tinyLlamaAnonymize(query: string): Promise<AnonymizationSubResult | null> {
+  private async tinyLlamaAnonymize(query: string, language: string): Promise<AnonymizationSubResult | null> {
     try {
       if (!this.tinyLlamaModel) return null;
 
@@ -238,8 +265,9 @@ Examples:
 
 <|user|>
 Anonymize this search query while preserving its meaning: "${query}"
+The query language is "${language}".
 
-Respond with only the anonymized query, nothing else.
+Respond with only the anonymized query, in the same language, nothing else.
 <|assistant|>`;
 
       // Generate anonymized query
@@ -271,7 +299,7 @@ Respond with only the anonymized query, nothing else.
   }
 
   // ONNX-based anonymization (simulated for now)
-  private async onnxAnonymize(query: string): Promise<AnonymizationSubResult | null> {
+  private async onnxAnonymize(query: string, language: string): Promise<AnonymizationSubResult | null> {
     try {
       if (!this.tinyLlamaModel || !this.tinyLlamaModel.loaded) return null;
 
@@ -279,7 +307,7 @@ Respond with only the anonymized query, nothing else.
       // In production, this would call actual ONNX model inference
       
       // Enhanced anonymization using pattern recognition
-      let anonymizedQuery = query.toLowerCase().trim();
+      let anonymizedQuery = this.normalize(query, language);
       const preservedSemantics: string[] = ['onnx-processed'];
       
       // Advanced pattern matching (simulating LLM intelligence)
@@ -302,8 +330,8 @@ Respond with only the anonymized query, nothing else.
         { pattern: /\b(today|tomorrow|now|urgent)\b/gi, replacement: 'time_sensitive', semantic: 'temporal' }
       ];
       
-      // Apply advanced patterns
-      for (const { pattern, replacement, semantic } of advancedPatterns) {
+      // Apply advanced patterns (English vocabulary only)
+      for (const { pattern, replacement, semantic } of this.isEnglish(language) ? advancedPatterns : []) {
         if (pattern.test(anonymizedQuery)) {
           anonymizedQuery = anonymizedQuery.replace(pattern, replacement);
           preservedSemantics.push(semantic);
@@ -333,16 +361,17 @@ Respond with only the anonymized query, nothing else.
   }
 
   // Enhanced rule-based anonymization
-  private async ruleBasedAnonymize(query: string, startTime: number): Promise<AnonymizationResult> {
-    const normalizedQuery = query.toLowerCase().trim();
+  private async ruleBasedAnonymize(query: string, startTime: number, language: string): Promise<AnonymizationResult> {
+    const normalizedQuery = this.normalize(query, language);
     
     // Apply rule-based anonymization
     let anonymizedQuery = normalizedQuery;
     const preservedSemantics: string[] = [];
     let replacements = 0;
 
-    // Apply anonymization rules
-    for (const [pattern, replacement] of this.anonymizationRules) {
+    // Apply anonymization rules (English vocabulary only)
+    const rules = this.isEnglish(language) ? this.anonymizationRules : new Map<string, string>();
+    for (const [pattern, replacement] of rules) {
       if (anonymizedQuery.includes(pattern)) {
         anonymizedQuery = anonymizedQuery.replace(new RegExp(pattern, 'gi'), replacement);
         preservedSemantics.push(this.categorizePattern(pattern));
@@ -351,7 +380,7 @@ Respond with only the anonymized query, nothing else.
     }
 
     // Additional pattern-based anonymization
-    anonymizedQuery = this.applyAdvancedPatterns(anonymizedQuery, preservedSemantics);
+    anonymizedQuery = this.applyAdvancedPatterns(anonymizedQuery, preservedSemantics, language);
 
     // Ensure anonymized query is not empty or too short
     if (!anonymizedQuery || anonymizedQuery.trim().length < 2) {
@@ -368,7 +397,8 @@ Respond with only the anonymized query, nothing else.
       confidence,
       preservedSemantics: [...new Set(preservedSemantics)], // Remove duplicates
       processingTime: Date.now() - startTime,
-      method: 'rule-based'
+      method: 'rule-based',
+      language
     };
   }
 
@@ -400,11 +430,13 @@ Respond with only the anonymized query, nothing else.
     return 'general';
   }
 
-  private applyAdvancedPatterns(query: string, semantics: string[]): string {
+  private applyAdvancedPatterns(query: string, semantics: string[], language: string): string {
     let result = query;
 
     // Remove personal pronouns
-    result = result.replace(/\b(my|mine|me|I|we|our)\b/gi, '');
+    if (this.isEnglish(language)) {
+      result = result.replace(/\b(my|mine|me|I|we|our)\b/gi, '');
+    }
     
     // Generalize numbers and quantities
     result = result.replace(/\b\d+\b/g, 'number');
@@ -422,10 +454,9 @@ Respond with only the anonymized query, nothing else.
     return result;
   }
 
-  private basicAnonymization(query: string): string {
+  private basicAnonymization(query: string, language: string): string {
     // Very basic fallback anonymization
-    let result = query
-      .replace(/\b(I|me|my|mine)\b/gi, '')
+    let result = (this.isEnglish(language) ? query.replace(/\b(I|me|my|mine)\b/gi, '') : query)
       .replace(/\b\d+\b/g, 'number')
       .replace(/\s+/g, ' ')
       .trim();
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CircuitBreaker } from '../src/circuit-breaker';
+import { EngineBlockedError, EngineHttpError, EngineNetworkError, EngineNoResultsError, EngineParseError, isEngineFailure } from '../src/engine-errors';
+import { TimeoutError } from '../src/deadline';
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 1000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function openCircuit(): void {
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure(new Error(`failure ${i}`));
+    }
+  }
+
+  it('stays closed below the failure threshold', () => {
+    breaker.recordFailure(new Error('one'));
+    breaker.recordFailure(new Error('two'));
+
+    expect(breaker.currentState).toBe('closed');
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('opens after consecutive failures and rejects calls during the cooldown', () => {
+    openCircuit();
+
+    expect(breaker.currentState).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+    expect(breaker.snapshot()).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 3,
+      nextProbeAt: Date.now() + 1000,
+      lastError: 'failure 2'
+    });
+  });
+
+  it('a success resets the failure count', () => {
+    breaker.recordFailure(new Error('one'));
+    breaker.recordFailure(new Error('two'));
+    breaker.recordSuccess();
+    breaker.recordFailure(new Error('three'));
+
+    expect(breaker.currentState).toBe('closed');
+    expect(breaker.snapshot().consecutiveFailures).toBe(1);
+  });
+
+  it('moves to half-open after the cooldown and lets exactly one probe through', () => {
+    openCircuit();
+    vi.advanceTimersByTime(1000);
+
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.currentState).toBe('half-open');
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('closes when the probe succeeds', () => {
+    openCircuit();
+    vi.advanceTimersByTime(1000);
+    breaker.canRequest();
+    breaker.recordSuccess();
+
+    expect(breaker.currentState).toBe('closed');
+    expect(breaker.snapshot()).toMatchObject({ consecutiveFailures: 0, nextProbeAt: undefined, lastError: undefined });
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('re-opens for a full cooldown when the probe fails', () => {
+    openCircuit();
+    vi.advanceTimersByTime(1000);
+    breaker.canRequest();
+    breaker.recordFailure(new Error('probe failed'));
+
+    expect(breaker.currentState).toBe('open');
+    vi.advanceTimersByTime(999);
+    expect(breaker.canRequest()).toBe(false);
+    vi.advanceTimersByTime(1);
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('lets the next call probe again after a released probe', () => {
+    openCircuit();
+    vi.advanceTimersByTime(1000);
+    breaker.canRequest();
+    breaker.releaseProbe();
+
+    expect(breaker.currentState).toBe('half-open');
+    expect(breaker.canRequest()).toBe(true);
+  });
+});
+
+describe('isEngineFailure', () => {
+  it('counts transport errors, HTTP errors and block pages', () => {
+    expect(isEngineFailure(new EngineHttpError(503, 'unavailable'), false)).toBe(true);
+    expect(isEngineFailure(new EngineHttpError(404, 'not found'), false)).toBe(true);
+    expect(isEngineFailure(new EngineNetworkError('reset'), false)).toBe(true);
+    expect(isEngineFailure(new EngineBlockedError('captcha'), false)).toBe(true);
+  });
+
+  it('does not count empty answers or unparseable pages', () => {
+    expect(isEngineFailure(new EngineNoResultsError('nothing'), false)).toBe(false);
+    expect(isEngineFailure(new EngineParseError('bad json'), false)).toBe(false);
+  });
+
+  it('counts a timeout only while the request deadline has time left', () => {
+    expect(isEngineFailure(new TimeoutError('engine', 100), false)).toBe(true);
+    expect(isEngineFailure(new TimeoutError('engine', 100), true)).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Deadline, DelayHandle, TimeoutError, delay } from '../src/deadline';
+
+describe('Deadline', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('clears its timer once the raced promise resolves', async () => {
+    vi.useFakeTimers();
+    const deadline = new Deadline(5000);
+
+    await expect(deadline.race(Promise.resolve('done'), 'engine')).resolves.toBe('done');
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('clears its timer once the raced promise rejects', async () => {
+    vi.useFakeTimers();
+    const deadline = new Deadline(5000);
+
+    await expect(deadline.race(Promise.reject(new Error('boom')), 'engine')).rejects.toThrow('boom');
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('rejects with a TimeoutError when the budget runs out first', async () => {
+    vi.useFakeTimers();
+    const deadline = new Deadline(5000);
+    const raced = deadline.race(new Promise(() => undefined), 'engine', 100);
+    const settled = expect(raced).rejects.toBeInstanceOf(TimeoutError);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await settled;
+    await expect(raced).rejects.toThrow('engine timed out after 100ms');
+  });
+
+  it('never gives a race more than what is left of the deadline', async () => {
+    vi.useFakeTimers();
+    const deadline = new Deadline(50);
+    const raced = deadline.race(new Promise(() => undefined), 'engine', 1000);
+    const settled = expect(raced).rejects.toThrow('engine timed out after 50ms');
+
+    await vi.advanceTimersByTimeAsync(50);
+    await settled;
+    expect(deadline.expired).toBe(true);
+  });
+
+  it('rejects straight away once expired', async () => {
+    vi.useFakeTimers();
+    const deadline = new Deadline(10);
+    vi.advanceTimersByTime(10);
+
+    await expect(deadline.race(Promise.resolve('late'), 'engine')).rejects.toThrow('engine timed out after 0ms');
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
+
+describe('delay', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('clears its timer when cancelled', () => {
+    vi.useFakeTimers();
+    const handle = new DelayHandle();
+    delay(1000, handle);
+
+    expect(vi.getTimerCount()).toBe(1);
+    handle.cancel();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('never starts a timer for an already cancelled handle', () => {
+    vi.useFakeTimers();
+    const handle = new DelayHandle();
+    handle.cancel();
+    delay(1000, handle);
+
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
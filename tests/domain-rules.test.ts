@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { applyDomainRules, domainAction, matchesDomain } from '../src/domain-rules';
+import { createResult } from '../src/search-result';
+
+describe('matchesDomain', () => {
+  it('matches a plain domain and its subdomains', () => {
+    expect(matchesDomain('example.com', 'example.com')).toBe(true);
+    expect(matchesDomain('docs.example.com', 'example.com')).toBe(true);
+    expect(matchesDomain('notexample.com', 'example.com')).toBe(false);
+    expect(matchesDomain('example.com.evil.net', 'example.com')).toBe(false);
+  });
+
+  it('matches *.domain against subdomains only', () => {
+    expect(matchesDomain('docs.example.com', '*.example.com')).toBe(true);
+    expect(matchesDomain('a.b.example.com', '*.example.com')).toBe(true);
+    expect(matchesDomain('example.com', '*.example.com')).toBe(false);
+    expect(matchesDomain('badexample.com', '*.example.com')).toBe(false);
+  });
+
+  it('treats * as a wildcard anywhere in the pattern', () => {
+    expect(matchesDomain('shop.example.co.uk', 'shop.*.co.uk')).toBe(true);
+    expect(matchesDomain('www.pinterest.de', '*pinterest*')).toBe(true);
+    expect(matchesDomain('cdn1.assets.net', 'cdn*.assets.net')).toBe(true);
+    expect(matchesDomain('cdn.other.net', 'cdn*.assets.net')).toBe(false);
+    expect(matchesDomain('anything.org', '*')).toBe(true);
+  });
+
+  it('ignores case and trailing dots', () => {
+    expect(matchesDomain('Docs.Example.COM.', 'example.com')).toBe(true);
+    expect(matchesDomain('docs.example.com', 'EXAMPLE.COM.')).toBe(true);
+  });
+
+  it('matches long hosts against many wildcards quickly', () => {
+    const host = `${'a'.repeat(5000)}.com`;
+    const pattern = `${'*a'.repeat(50)}*b`;
+    const started = Date.now();
+
+    expect(matchesDomain(host, pattern)).toBe(false);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
+
+describe('applyDomainRules', () => {
+  const results = ['https://spam.example/1', 'https://docs.rs/', 'https://www.pinterest.com/x', 'https://github.com/y']
+    .map(url => createResult({ title: url, url, snippet: '' }));
+
+  it('blocks, pins, raises and lowers while keeping order within each tier', () => {
+    const { results: ruled, summary } = applyDomainRules(results, [
+      { pattern: 'spam.example', action: 'block' },
+      { pattern: '*pinterest*', action: 'lower' },
+      { pattern: 'github.com', action: 'pin' }
+    ]);
+
+    expect(ruled.map(result => result.url)).toEqual(['https://github.com/y', 'https://docs.rs/', 'https://www.pinterest.com/x']);
+    expect(summary).toEqual({ rules: 3, blocked: 1, pinned: 1, raised: 0, lowered: 1 });
+  });
+
+  it('lets block win over any other matching rule', () => {
+    expect(domainAction('https://www.github.com/', [
+      { pattern: 'github.com', action: 'pin' },
+      { pattern: '*.github.com', action: 'block' }
+    ])).toBe('block');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'crypto';
+import { OutboundLinks } from '../src/outbound-links';
+import { queryParams } from '../src/url-canonical';
+
+const NOW = 1700000000000;
+const TARGET = 'https://example.com/page?id=1&lang=en';
+
+function signed(links: OutboundLinks, url: string = TARGET): Record<string, string> {
+  return queryParams(links.sign(url, NOW));
+}
+
+describe('OutboundLinks', () => {
+  const links = new OutboundLinks({ secret: 'test-secret', ttlMs: 60000 });
+
+  it('signs a readable /go link that verifies until it expires', () => {
+    const link = links.sign(TARGET, NOW);
+    const { url, exp, sig } = queryParams(link);
+
+    expect(link.startsWith(`/go?url=${encodeURIComponent(TARGET)}&exp=${NOW + 60000}&sig=`)).toBe(true);
+    expect(sig).toMatch(/^[0-9a-f]{64}$/);
+    expect(links.verify(url, exp, sig, NOW + 60000)).toEqual({ valid: true, url: TARGET, insecure: false });
+  });
+
+  it('signs with standard HMAC-SHA256 over the expiry and URL', () => {
+    const { exp, sig } = signed(links);
+    expect(sig).toBe(createHmac('sha256', 'test-secret').update(`${exp}\n${TARGET}`).digest('hex'));
+  });
+
+  it('rejects an expired link', () => {
+    const { url, exp, sig } = signed(links);
+    expect(links.verify(url, exp, sig, NOW + 60001)).toEqual({ valid: false, reason: 'expired' });
+  });
+
+  it('rejects a tampered URL, expiry or signature', () => {
+    const { url, exp, sig } = signed(links);
+    const flipped = `${sig.slice(0, -1)}${sig.endsWith('0') ? '1' : '0'}`;
+
+    expect(links.verify('https://evil.example/', exp, sig, NOW)).toEqual({ valid: false, reason: 'invalid' });
+    expect(links.verify(url, String(NOW + 120000), sig, NOW)).toEqual({ valid: false, reason: 'invalid' });
+    expect(links.verify(url, exp, flipped, NOW)).toEqual({ valid: false, reason: 'invalid' });
+  });
+
+  it('rejects missing or malformed parameters', () => {
+    const { url, exp, sig } = signed(links);
+
+    expect(links.verify(undefined, exp, sig, NOW)).toEqual({ valid: false, reason: 'invalid' });
+    expect(links.verify(url, `${exp}.5`, sig, NOW)).toEqual({ valid: false, reason: 'invalid' });
+    expect(links.verify(url, exp, ['a', 'b'], NOW)).toEqual({ valid: false, reason: 'invalid' });
+  });
+
+  it('never accepts non-web targets, even when signed', () => {
+    const { url, exp, sig } = signed(links, 'javascript:alert(1)');
+    expect(links.verify(url, exp, sig, NOW)).toEqual({ valid: false, reason: 'invalid' });
+  });
+
+  it('flags plain-HTTP targets', () => {
+    const { url, exp, sig } = signed(links, 'http://example.com/');
+    expect(links.verify(url, exp, sig, NOW)).toEqual({ valid: true, url: 'http://example.com/', insecure: true });
+  });
+
+  it('accepts links signed by another instance with the same secret only', () => {
+    const { url, exp, sig } = signed(links);
+
+    expect(new OutboundLinks({ secret: 'test-secret' }).verify(url, exp, sig, NOW).valid).toBe(true);
+    expect(new OutboundLinks({ secret: 'other-secret' }).verify(url, exp, sig, NOW).valid).toBe(false);
+  });
+
+  it('reports whether the key is shared', () => {
+    expect(links.sharedSecret).toBe(true);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RetryPolicy, backoffDelay, withRetry } from '../src/retry';
+import { Deadline } from '../src/deadline';
+import { EngineBlockedError, EngineHttpError, EngineNetworkError, EngineParseError, isRetryableError } from '../src/engine-errors';
+
+const NO_JITTER: RetryPolicy = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000, jitter: 0 };
+
+describe('isRetryableError', () => {
+  it('retries rate limits, server errors and network failures', () => {
+    expect(isRetryableError(new EngineHttpError(429, 'too many requests'))).toBe(true);
+    expect(isRetryableError(new EngineHttpError(500, 'server error'))).toBe(true);
+    expect(isRetryableError(new EngineHttpError(503, 'unavailable'))).toBe(true);
+    expect(isRetryableError(new EngineNetworkError('connection reset'))).toBe(true);
+  });
+
+  it('does not retry other client errors, parse errors, block pages or plain errors', () => {
+    expect(isRetryableError(new EngineHttpError(403, 'forbidden'))).toBe(false);
+    expect(isRetryableError(new EngineHttpError(404, 'not found'))).toBe(false);
+    expect(isRetryableError(new EngineParseError('bad json'))).toBe(false);
+    expect(isRetryableError(new EngineBlockedError('captcha'))).toBe(false);
+    expect(isRetryableError(new Error('boom'))).toBe(false);
+  });
+});
+
+describe('backoffDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('doubles each attempt up to the maximum', () => {
+    expect([1, 2, 3, 4, 5].map(attempt => backoffDelay(attempt, NO_JITTER))).toEqual([100, 200, 400, 800, 1000]);
+  });
+
+  it('takes up to the jitter fraction off each delay', () => {
+    const policy = { ...NO_JITTER, jitter: 0.5 };
+
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(backoffDelay(2, policy)).toBe(200);
+    vi.spyOn(Math, 'random').mockReturnValue(0.999);
+    expect(backoffDelay(2, policy)).toBe(100);
+  });
+});
+
+describe('withRetry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries transient failures with backoff until the operation succeeds', async () => {
+    vi.useFakeTimers();
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new EngineHttpError(503, 'unavailable'))
+      .mockRejectedValueOnce(new EngineNetworkError('reset'))
+      .mockResolvedValueOnce('results');
+
+    const result = withRetry(operation, NO_JITTER, new Deadline(10000));
+    await vi.advanceTimersByTimeAsync(100);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(200);
+
+    await expect(result).resolves.toBe('results');
+    expect(operation.mock.calls.map(call => call[0])).toEqual([1, 2, 3]);
+  });
+
+  it('gives up immediately on a non-retryable error', async () => {
+    const operation = vi.fn().mockRejectedValue(new EngineParseError('bad json'));
+
+    await expect(withRetry(operation, NO_JITTER, new Deadline(10000))).rejects.toThrow('bad json');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops after maxAttempts', async () => {
+    vi.useFakeTimers();
+    const operation = vi.fn().mockRejectedValue(new EngineHttpError(429, 'too many requests'));
+
+    const result = withRetry(operation, NO_JITTER, new Deadline(10000));
+    const settled = expect(result).rejects.toThrow('too many requests');
+    await vi.advanceTimersByTimeAsync(300);
+
+    await settled;
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not wait for a backoff that would not fit in the deadline', async () => {
+    const operation = vi.fn().mockRejectedValue(new EngineHttpError(503, 'unavailable'));
+
+    await expect(withRetry(operation, NO_JITTER, new Deadline(50))).rejects.toThrow('unavailable');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
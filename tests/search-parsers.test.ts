@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseGoogleResults } from '../src/search-parsers';
+import { CANARY_FIXTURE, checkCanary } from '../src/parser-health';
+
+// Saved result pages; refresh them when Google ships a new layout and fix the parser, not the assertions
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, 'fixtures', 'serp', name), 'utf-8');
+}
+
+describe('parseGoogleResults', () => {
+  describe('desktop layout', () => {
+    const parsed = parseGoogleResults(fixture('google-desktop.html'));
+
+    it('returns only the organic results, in page order', () => {
+      expect(parsed.results.map(result => result.url)).toEqual([
+        'https://tokio.rs/',
+        'https://rust-lang.github.io/async-book/01_getting_started/01_chapter.html?utm_source=google',
+        'https://docs.rs/async-std/latest/async_std/',
+        'https://github.com/smol-rs/smol'
+      ]);
+    });
+
+    it('reads title, display URL and snippet from the same result block', () => {
+      const [tokio, asyncBook, asyncStd] = parsed.results;
+
+      expect(tokio.title).toBe('Tokio - An asynchronous Rust runtime');
+      expect(tokio.displayUrl).toBe('https://tokio.rs');
+      expect(tokio.snippet).toMatch(/^Tokio is an event-driven, non-blocking I\/O platform/);
+
+      expect(asyncBook.title).toBe('Getting Started - Asynchronous Programming in Rust');
+      expect(asyncBook.displayUrl).toBe('https://rust-lang.github.io › async-book');
+      expect(asyncBook.snippet).toMatch(/^This book aims to be a comprehensive/);
+
+      expect(asyncStd.title).toBe('async_std - Rust - Docs.rs');
+      expect(asyncStd.snippet).toBe('Async version of the Rust standard library. This crate provides an async version of std.');
+    });
+
+    it('splits a leading date off the snippet', () => {
+      expect(parsed.results[1].publishedDate).toBe('2024-03-05T00:00:00.000Z');
+      expect(parsed.results[0].publishedDate).toBeUndefined();
+    });
+
+    it('leaves the snippet empty rather than borrowing one from a neighbour', () => {
+      const smol = parsed.results[3];
+      expect(smol.title).toBe('smol-rs/smol: A small and fast async runtime for Rust');
+      expect(smol.snippet).toBe('');
+    });
+
+    it('skips ads, People also ask, carousels and Google-internal links', () => {
+      const text = JSON.stringify(parsed.results);
+      expect(text).not.toContain('googleadservices');
+      expect(text).not.toContain('Sponsored');
+      expect(text).not.toContain('reddit.com');
+      expect(text).not.toContain('news.example.com');
+      expect(text).not.toContain('Images for');
+      expect(text).not.toContain('tokio vs async-std');
+    });
+
+    it('numbers ranks sequentially and never emits placeholder or markup text', () => {
+      expect(parsed.results.map(result => result.rank)).toEqual([1, 2, 3, 4]);
+      for (const result of parsed.results) {
+        expect(result.engines).toEqual([]);
+        expect(result.type).toBe('organic');
+        expect(result.snippet).not.toMatch(/Found T:|<[a-z/]/i);
+        expect(result.title).not.toMatch(/<[a-z/]/i);
+      }
+    });
+
+    it('reads the result count and next page link', () => {
+      expect(parsed.totalResults).toBe(12300000);
+      expect(parsed.nextPageUrl).toBe('https://www.google.com/search?q=rust+async+runtime&start=10');
+    });
+
+    it('extracts related searches, People also ask and the spelling suggestion', () => {
+      expect(parsed.refinements).toEqual({
+        relatedSearches: ['tokio vs async-std', 'rust async runtime comparison'],
+        peopleAlsoAsk: [{
+          question: 'What is the best async runtime for Rust?',
+          answer: 'People also ask answers must not leak into organic results.',
+          source: {
+            name: 'Which async runtime do you use? : r/rust',
+            url: 'https://www.reddit.com/r/rust/comments/async_runtime_comparison/'
+          }
+        }],
+        spellingSuggestion: 'rust async runtimes'
+      });
+    });
+  });
+
+  describe('basic HTML layout', () => {
+    const parsed = parseGoogleResults(fixture('google-basic.html'));
+
+    it('unwraps /url?q= redirects and drops Google-owned targets', () => {
+      expect(parsed.results.map(result => result.url)).toEqual([
+        'https://duckduckgo.com/',
+        'https://www.startpage.com/?sc=abc',
+        'https://en.wikipedia.org/wiki/Search_engine_privacy'
+      ]);
+    });
+
+    it('pairs each title with its own snippet and display URL', () => {
+      const [ddg, startpage, wikipedia] = parsed.results;
+
+      expect(ddg.title).toBe('DuckDuckGo - Protection. Privacy. Peace of mind.');
+      expect(ddg.displayUrl).toBe('duckduckgo.com');
+      expect(ddg.snippet).toMatch(/^The Internet privacy company/);
+
+      expect(startpage.snippet).toMatch(/^Startpage delivers online tools/);
+      expect(startpage.publishedDate).toBe('2024-01-12T00:00:00.000Z');
+
+      expect(wikipedia.displayUrl).toBe('en.wikipedia.org › wiki › Search_engine_privacy');
+      expect(wikipedia.snippet).toMatch(/^Search engine privacy is a subset/);
+      expect(parsed.results.map(result => result.rank)).toEqual([1, 2, 3]);
+    });
+
+    it('reads the footer next page link', () => {
+      expect(parsed.nextPageUrl).toBe('https://www.google.com/search?q=privacy+search+engine&start=10&sa=N');
+    });
+
+    it('reports no refinements when the page has none', () => {
+      expect(parsed.refinements).toEqual({});
+    });
+  });
+
+  describe('pages without results', () => {
+    it('returns nothing for a CAPTCHA page', () => {
+      const parsed = parseGoogleResults(fixture('google-captcha.html'));
+      expect(parsed.results).toEqual([]);
+      expect(parsed.nextPageUrl).toBeUndefined();
+    });
+
+    it('returns nothing for a no-match page', () => {
+      const parsed = parseGoogleResults(fixture('google-no-results.html'));
+      expect(parsed.results).toEqual([]);
+      expect(parsed.totalResults).toBe(0);
+    });
+  });
+});
+
+describe('parser canary', () => {
+  const canaryPage = parseGoogleResults(fixture('google-canary.html'));
+
+  it('expects the top results of the saved canary page', () => {
+    expect(canaryPage.results.slice(0, CANARY_FIXTURE.expectedUrls.length).map(result => result.url))
+      .toEqual(CANARY_FIXTURE.expectedUrls);
+  });
+
+  it('passes on the saved canary page', () => {
+    expect(checkCanary(canaryPage.results).passed).toBe(true);
+  });
+
+  it('fails on pages without the known-good results', () => {
+    expect(checkCanary(parseGoogleResults(fixture('google-desktop.html')).results).passed).toBe(false);
+    expect(checkCanary(parseGoogleResults(fixture('google-no-results.html')).results).passed).toBe(false);
+  });
+});
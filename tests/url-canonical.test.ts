@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { canonicalizeUrl, dedupeResults } from '../src/url-canonical';
+import { reciprocalRankFusion } from '../src/rank-fusion';
+import { SearchResult, createResult } from '../src/search-result';
+
+function result(url: string, snippet: string, fields: Partial<SearchResult> = {}): SearchResult {
+  return createResult({ title: url, url, snippet, ...fields });
+}
+
+describe('canonicalizeUrl', () => {
+  it('treats scheme, www, default ports, case and trailing slashes as the same page', () => {
+    const canonical = canonicalizeUrl('https://example.com/docs');
+
+    expect(canonicalizeUrl('http://www.example.com/docs/')).toBe(canonical);
+    expect(canonicalizeUrl('https://EXAMPLE.com:443/docs')).toBe(canonical);
+    expect(canonicalizeUrl('http://example.com:80//docs#intro')).toBe(canonical);
+  });
+
+  it('drops tracking parameters and sorts the rest', () => {
+    expect(canonicalizeUrl('https://example.com/a?utm_source=x&b=2&gclid=abc&a=1&fbclid=1'))
+      .toBe('https://example.com/a?a=1&b=2');
+  });
+
+  it('keeps parameters that change the page and non-default ports', () => {
+    expect(canonicalizeUrl('https://example.com:8443/a?id=1')).not.toBe(canonicalizeUrl('https://example.com/a?id=1'));
+    expect(canonicalizeUrl('https://example.com/a?id=1')).not.toBe(canonicalizeUrl('https://example.com/a?id=2'));
+  });
+});
+
+describe('dedupeResults', () => {
+  it('keeps the first position and the most informative snippet', () => {
+    const deduped = dedupeResults([
+      result('https://example.com/page?utm_source=news', 'Short', { engines: ['google'] }),
+      result('https://other.org/', 'Other page', { engines: ['google'] }),
+      result('http://www.example.com/page/', 'A much longer and more useful snippet', { engines: ['bing'] })
+    ]);
+
+    expect(deduped.map(entry => entry.url)).toEqual(['https://example.com/page?utm_source=news', 'https://other.org/']);
+    expect(deduped[0].snippet).toBe('A much longer and more useful snippet');
+    expect(deduped[0].engines).toEqual(['google', 'bing']);
+  });
+
+  it('never prefers a placeholder snippet', () => {
+    const [merged] = dedupeResults([
+      result('https://example.com/', 'Real text'),
+      result('https://www.example.com/', 'No description available')
+    ]);
+
+    expect(merged.snippet).toBe('Real text');
+  });
+
+  it('fills optional fields the kept copy is missing', () => {
+    const [merged] = dedupeResults([
+      result('https://example.com/', 'Text'),
+      result('https://example.com', 'Text', { publishedDate: '2024-01-01', thumbnail: 'https://example.com/t.png' })
+    ]);
+
+    expect(merged.publishedDate).toBe('2024-01-01');
+    expect(merged.thumbnail).toBe('https://example.com/t.png');
+  });
+
+  it('does not modify the input results', () => {
+    const first = result('https://example.com/', 'Short');
+    dedupeResults([first, result('https://example.com', 'Much longer snippet')]);
+
+    expect(first.snippet).toBe('Short');
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  it('merges duplicates across engines with the best snippet and every engine', () => {
+    const fused = reciprocalRankFusion([
+      { engine: 'google', results: [result('https://example.com/page', 'Short'), result('https://a.org/', 'A')] },
+      { engine: 'bing', results: [result('https://www.example.com/page/', 'Longer snippet from Bing')] }
+    ]);
+
+    expect(fused).toHaveLength(2);
+    expect(fused[0]).toMatchObject({
+      url: 'https://example.com/page',
+      snippet: 'Longer snippet from Bing',
+      engines: ['google', 'bing']
+    });
+  });
+});
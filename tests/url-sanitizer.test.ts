@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { sanitizeResults, sanitizeUrl, summarizeSanitization } from '../src/url-sanitizer';
+import { createResult } from '../src/search-result';
+
+const TARGET = 'https://example.com/article?id=7';
+
+describe('sanitizeUrl', () => {
+  describe('redirect unwrapping', () => {
+    it('unwraps Google /url links', () => {
+      expect(sanitizeUrl(`https://www.google.com/url?q=${encodeURIComponent(TARGET)}&sa=U&ved=abc`)).toEqual({
+        url: TARGET,
+        sanitization: { trackingParams: [], redirect: 'google' }
+      });
+    });
+
+    it('unwraps Bing /ck/a links with a base64url target', () => {
+      const encoded = Buffer.from(TARGET).toString('base64url');
+      expect(sanitizeUrl(`https://www.bing.com/ck/a?!&&p=123&u=a1${encoded}&ntb=1`).url).toBe(TARGET);
+    });
+
+    it('unwraps DuckDuckGo /l/ links', () => {
+      expect(sanitizeUrl(`https://duckduckgo.com/l/?uddg=${encodeURIComponent(TARGET)}&rut=xyz`).url).toBe(TARGET);
+    });
+
+    it('unwraps Yahoo RU= links', () => {
+      const url = `https://r.search.yahoo.com/_ylt=Abc/RV=2/RE=1/RO=10/RU=${encodeURIComponent(TARGET)}/RK=2/RS=def-`;
+      expect(sanitizeUrl(url).url).toBe(TARGET);
+    });
+
+    it('leaves redirects to non-web targets alone', () => {
+      const url = `https://www.google.com/url?q=${encodeURIComponent('javascript:alert(1)')}`;
+      expect(sanitizeUrl(url)).toEqual({ url });
+    });
+  });
+
+  describe('AMP unwrapping', () => {
+    it('turns Google AMP viewer links back into publisher URLs', () => {
+      expect(sanitizeUrl('https://www.google.com/amp/s/www.example.com/news/story.amp')).toEqual({
+        url: 'https://www.example.com/news/story.amp',
+        sanitization: { trackingParams: [], amp: true }
+      });
+      expect(sanitizeUrl('https://www.google.com/amp/example.com/story').url).toBe('http://example.com/story');
+    });
+
+    it('turns AMP cache links back into publisher URLs', () => {
+      expect(sanitizeUrl('https://www-example-com.cdn.ampproject.org/c/s/www.example.com/story').url)
+        .toBe('https://www.example.com/story');
+    });
+
+    it('drops amp and outputType=amp flags but keeps amp=0', () => {
+      expect(sanitizeUrl('https://example.com/story?amp=1&id=3').url).toBe('https://example.com/story?id=3');
+      expect(sanitizeUrl('https://example.com/story?outputType=amp').url).toBe('https://example.com/story');
+      expect(sanitizeUrl('https://example.com/story?amp=0')).toEqual({ url: 'https://example.com/story?amp=0' });
+    });
+
+    it('peels an engine redirect around an AMP link', () => {
+      const amp = 'https://www.google.com/amp/s/example.com/story?utm_source=amp';
+      expect(sanitizeUrl(`https://www.google.com/url?q=${encodeURIComponent(amp)}`)).toEqual({
+        url: 'https://example.com/story',
+        sanitization: { trackingParams: ['utm_source'], redirect: 'google', amp: true }
+      });
+    });
+  });
+
+  describe('tracking parameters', () => {
+    it('strips tracking parameters and keeps the rest in order, with the fragment', () => {
+      expect(sanitizeUrl('https://example.com/a?b=2&utm_source=x&gclid=1&a=1&mc_eid=9#top')).toEqual({
+        url: 'https://example.com/a?b=2&a=1#top',
+        sanitization: { trackingParams: ['utm_source', 'gclid', 'mc_eid'] }
+      });
+    });
+
+    it('drops the query separator when nothing is left', () => {
+      expect(sanitizeUrl('https://example.com/a?fbclid=abc').url).toBe('https://example.com/a');
+    });
+
+    it('reports nothing for a clean URL', () => {
+      expect(sanitizeUrl('https://example.com/a?q=search')).toEqual({ url: 'https://example.com/a?q=search' });
+    });
+  });
+});
+
+describe('summarizeSanitization', () => {
+  it('totals what was removed across results', () => {
+    const results = sanitizeResults([
+      'https://example.com/1?utm_source=a&utm_medium=b',
+      `https://duckduckgo.com/l/?uddg=${encodeURIComponent('https://example.com/2?utm_source=c')}`,
+      'https://example.com/3'
+    ].map(url => createResult({ title: url, url, snippet: '' })));
+
+    expect(results[2].sanitized).toBeUndefined();
+    expect(summarizeSanitization(results)).toEqual({
+      results: 2,
+      trackingParams: { utm_source: 2, utm_medium: 1 },
+      redirects: 1,
+      amp: 0
+    });
+  });
+});